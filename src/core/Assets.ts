@@ -15,6 +15,10 @@ import { MTLLoader } from "three/examples/jsm/loaders/MTLLoader.js";
 import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
 import { clone as cloneSkeleton } from "three/examples/jsm/utils/SkeletonUtils.js";
 import { applyPS1TextureSettings } from "../utils/Textures";
+import { CutsceneDefinition, parseCutscene } from "./Cutscene";
+import { DialogueGraph, parseDialogueGraph } from "./Dialogue";
+import { LevelData, parseLevel } from "./Level";
+import { parseQuests, QuestDefinition } from "./Quests";
 
 export interface ModelInstance {
   root: Object3D;
@@ -48,6 +52,7 @@ export class Assets {
   private readonly mtlCache = new Map<string, Promise<LoadedMTL | null>>();
   private readonly audioCache = new Map<string, Promise<AudioBuffer | null>>();
   private readonly textureCache = new Map<string, Promise<Texture | null>>();
+  private readonly jsonCache = new Map<string, Promise<unknown | null>>();
 
   async instantiateModel(path: string, fallbackFactory: () => Object3D): Promise<ModelInstance> {
     const model = await this.loadModel(path);
@@ -90,6 +95,90 @@ export class Assets {
     return this.audioCache.get(resolvedPath)!;
   }
 
+  async loadJSON(path: string): Promise<unknown | null> {
+    const resolvedPath = this.resolvePublicPath(path);
+    if (!this.jsonCache.has(resolvedPath)) {
+      const promise = (async (): Promise<unknown | null> => {
+        try {
+          const response = await fetch(resolvedPath);
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          return (await response.json()) as unknown;
+        } catch (error) {
+          // eslint-disable-next-line no-console
+          console.warn(`[Assets] Data file missing or failed: ${resolvedPath}.`, error);
+          return null;
+        }
+      })();
+
+      this.jsonCache.set(resolvedPath, promise);
+    }
+
+    return this.jsonCache.get(resolvedPath)!;
+  }
+
+  async loadDialogue(path: string): Promise<DialogueGraph | null> {
+    const data = await this.loadJSON(path);
+    if (!data) {
+      return null;
+    }
+
+    try {
+      return parseDialogueGraph(data);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(`[Assets] Dialogue is malformed: ${path}.`, error);
+      return null;
+    }
+  }
+
+  async loadLevel(path: string): Promise<LevelData | null> {
+    const data = await this.loadJSON(path);
+    if (!data) {
+      return null;
+    }
+
+    try {
+      return parseLevel(data);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(`[Assets] Level is malformed: ${path}.`, error);
+      return null;
+    }
+  }
+
+  // No quests (rather than null) when the file is missing or malformed.
+  async loadQuests(path: string): Promise<QuestDefinition[]> {
+    const data = await this.loadJSON(path);
+    if (!data) {
+      return [];
+    }
+
+    try {
+      return parseQuests(data);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(`[Assets] Quests are malformed: ${path}.`, error);
+      return [];
+    }
+  }
+
+  async loadCutscene(path: string): Promise<CutsceneDefinition | null> {
+    const data = await this.loadJSON(path);
+    if (!data) {
+      return null;
+    }
+
+    try {
+      return parseCutscene(data);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(`[Assets] Cutscene is malformed: ${path}.`, error);
+      return null;
+    }
+  }
+
   private async loadGLTF(path: string): Promise<GLTF | null> {
     const resolvedPath = this.resolvePublicPath(path);
     if (!this.gltfCache.has(resolvedPath)) {
@@ -0,0 +1,418 @@
+import { AnimationClip, AnimationMixer, LoopOnce, LoopRepeat, Object3D, PerspectiveCamera, Vector3 } from "three";
+import type { UI } from "../ui/UI";
+import type { Input } from "./Input";
+
+export type CutsceneEase = "linear" | "in" | "out" | "inOut";
+
+export interface CutsceneVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Keys blend from the previous key with their own `ease` (linear when omitted).
+export interface CutsceneCameraKey {
+  time: number;
+  position: CutsceneVector;
+  lookAt: CutsceneVector;
+  ease?: CutsceneEase;
+}
+
+export interface CutsceneTransformKey {
+  time: number;
+  // Omitted `y`: the object keeps its height (e.g. standing on the ground).
+  position: { x: number; y?: number; z: number };
+  rotY?: number;
+  ease?: CutsceneEase;
+}
+
+export interface CutsceneFadeKey {
+  time: number;
+  // 0 clear .. 1 black.
+  opacity: number;
+  ease?: CutsceneEase;
+}
+
+export interface CutsceneAnimationCue {
+  time: number;
+  clip: string;
+  loop?: boolean;
+}
+
+export interface CutsceneLine {
+  time: number;
+  speaker: string;
+  text: string;
+  // Seconds on screen.
+  duration: number;
+}
+
+export interface CutsceneSoundCue {
+  time: number;
+  sound: string;
+  volume?: number;
+}
+
+// `target` names a scene object: "player" or an entity id in the village, a guest in the club.
+export type CutsceneTrack =
+  | { type: "camera"; keys: CutsceneCameraKey[] }
+  | { type: "transform"; target: string; keys: CutsceneTransformKey[] }
+  | { type: "animation"; target: string; cues: CutsceneAnimationCue[] }
+  | { type: "dialogue"; lines: CutsceneLine[] }
+  | { type: "audio"; cues: CutsceneSoundCue[] }
+  | { type: "fade"; keys: CutsceneFadeKey[] };
+
+export interface CutsceneDefinition {
+  id: string;
+  // True when omitted.
+  skippable?: boolean;
+  tracks: CutsceneTrack[];
+}
+
+// What a scene lends a cutscene to play in it.
+export interface CutsceneHost {
+  ui: UI;
+  input: Input;
+  camera: PerspectiveCamera;
+  // null when the scene has nothing by that name; its tracks are then skipped.
+  getTarget(name: string): Object3D | null;
+  playAnimation(target: string, clip: string, loop: boolean): void;
+  playSound(path: string, volume: number): void;
+}
+
+const TRACK_TYPES = ["camera", "transform", "animation", "dialogue", "audio", "fade"];
+// Tracks sampled between keys every frame (the rest fire one-shot cues).
+const KEYED_TRACKS = ["camera", "transform", "fade"];
+const EASES = ["linear", "in", "out", "inOut"];
+
+export function parseCutscene(data: unknown): CutsceneDefinition {
+  if (!data || typeof data !== "object") {
+    throw new Error("Cutscene must be an object");
+  }
+
+  const cutscene = data as Partial<CutsceneDefinition>;
+  if (typeof cutscene.id !== "string" || !Array.isArray(cutscene.tracks)) {
+    throw new Error("Cutscene needs 'id' and 'tracks'");
+  }
+  const id = cutscene.id;
+
+  const tracks = cutscene.tracks.map((track, index) => {
+    if (!track || !TRACK_TYPES.includes(String(track.type))) {
+      throw new Error(`Cutscene '${id}': track ${index} has unknown type '${String(track?.type)}'`);
+    }
+    if ((track.type === "transform" || track.type === "animation") && typeof track.target !== "string") {
+      throw new Error(`Cutscene '${id}': ${track.type} track ${index} needs a 'target'`);
+    }
+
+    const entries = getEntries(track);
+    if (!Array.isArray(entries) || !entries.every((entry) => isEntry(track.type, entry))) {
+      throw new Error(`Cutscene '${id}': ${track.type} track ${index} has malformed keys`);
+    }
+    if (entries.length === 0 && KEYED_TRACKS.includes(track.type)) {
+      throw new Error(`Cutscene '${id}': ${track.type} track ${index} needs at least one key`);
+    }
+    // Keys and cues play in time order whatever order the file lists them in.
+    return withEntries(track, [...entries].sort((a, b) => a.time - b.time));
+  });
+
+  return { id, skippable: cutscene.skippable !== false, tracks };
+}
+
+// Plays one cutscene against a scene's camera and objects. The scene calls `update` instead of its
+// own camera and controls until `finished`; the skip action jumps to the end state.
+export class CutscenePlayer {
+  readonly definition: CutsceneDefinition;
+  readonly duration: number;
+
+  private readonly host: CutsceneHost;
+  private readonly driven = new Set<string>();
+  private readonly fired = new Map<CutsceneTrack, number>();
+  private readonly lookAt = new Vector3();
+  private time = 0;
+  private lineEndsAt = -1;
+  private done = false;
+
+  constructor(definition: CutsceneDefinition, host: CutsceneHost) {
+    this.definition = definition;
+    this.host = host;
+    this.duration = Math.max(0, ...definition.tracks.map(getTrackEnd));
+    for (const track of definition.tracks) {
+      if (track.type === "transform") {
+        this.driven.add(track.target);
+      }
+    }
+    this.lookAt.copy(host.camera.getWorldDirection(new Vector3())).add(host.camera.position);
+  }
+
+  get finished(): boolean {
+    return this.done;
+  }
+
+  // True when a transform track moves `target`; the scene should leave that object alone meanwhile.
+  drives(target: string): boolean {
+    return !this.done && this.driven.has(target);
+  }
+
+  // Where the camera looked last, for easing the scene's own camera back in.
+  getLookAt(out: Vector3): Vector3 {
+    return out.copy(this.lookAt);
+  }
+
+  update(deltaSeconds: number): void {
+    if (this.done) {
+      return;
+    }
+    if (this.definition.skippable !== false && this.host.input.consumeAction("skip")) {
+      this.skip();
+      return;
+    }
+
+    this.time = Math.min(this.duration, this.time + deltaSeconds);
+    for (const track of this.definition.tracks) {
+      this.fireCues(track);
+      this.sample(track, this.time);
+    }
+    if (this.lineEndsAt >= 0 && this.time >= this.lineEndsAt) {
+      this.lineEndsAt = -1;
+      this.host.ui.hideDialogue();
+    }
+    this.showSkipTip();
+
+    if (this.time >= this.duration) {
+      this.finish();
+    }
+  }
+
+  // Jumps to where every camera and transform track ends; cues not reached yet are dropped.
+  skip(): void {
+    if (this.done) {
+      return;
+    }
+    for (const track of this.definition.tracks) {
+      if (track.type === "camera" || track.type === "transform") {
+        this.sample(track, this.duration);
+      }
+    }
+    this.finish();
+  }
+
+  private finish(): void {
+    this.done = true;
+    if (this.lineEndsAt >= 0) {
+      this.lineEndsAt = -1;
+      this.host.ui.hideDialogue();
+    }
+    this.host.ui.hideHint();
+    if (this.definition.tracks.some((track) => track.type === "fade")) {
+      this.host.ui.setFadeOpacity(0);
+    }
+  }
+
+  private getSkipTip(): string {
+    return this.definition.skippable !== false ? `${this.host.input.describeAction("skip", 1)} - skip` : "";
+  }
+
+  private showSkipTip(): void {
+    const tip = this.getSkipTip();
+    // The line box has its own tip row; the hint would sit under it.
+    if (this.lineEndsAt >= 0 || !tip) {
+      this.host.ui.hideHint();
+    } else {
+      this.host.ui.showHint(tip);
+    }
+  }
+
+  // Runs the one-shot cues (animations, lines, sounds) the playhead has passed.
+  private fireCues(track: CutsceneTrack): void {
+    if (track.type !== "animation" && track.type !== "dialogue" && track.type !== "audio") {
+      return;
+    }
+    const entries = getEntries(track);
+    let index = this.fired.get(track) ?? 0;
+    while (index < entries.length && entries[index].time <= this.time) {
+      this.fireCue(track, index);
+      index += 1;
+    }
+    this.fired.set(track, index);
+  }
+
+  private fireCue(track: CutsceneTrack, index: number): void {
+    if (track.type === "animation") {
+      const cue = track.cues[index];
+      this.host.playAnimation(track.target, cue.clip, cue.loop ?? false);
+    } else if (track.type === "audio") {
+      const cue = track.cues[index];
+      this.host.playSound(cue.sound, cue.volume ?? 1);
+    } else if (track.type === "dialogue") {
+      const line = track.lines[index];
+      this.host.ui.showDialogue({ speaker: line.speaker, text: line.text, tip: this.getSkipTip() });
+      this.lineEndsAt = line.time + line.duration;
+    }
+  }
+
+  private sample(track: CutsceneTrack, time: number): void {
+    if (track.type === "camera") {
+      const { from, to, t } = findSegment(track.keys, time);
+      const camera = this.host.camera;
+      camera.position.set(
+        lerp(from.position.x, to.position.x, t),
+        lerp(from.position.y, to.position.y, t),
+        lerp(from.position.z, to.position.z, t)
+      );
+      this.lookAt.set(
+        lerp(from.lookAt.x, to.lookAt.x, t),
+        lerp(from.lookAt.y, to.lookAt.y, t),
+        lerp(from.lookAt.z, to.lookAt.z, t)
+      );
+      camera.lookAt(this.lookAt);
+    } else if (track.type === "transform") {
+      const object = this.host.getTarget(track.target);
+      if (!object) {
+        return;
+      }
+      const { from, to, t } = findSegment(track.keys, time);
+      object.position.x = lerp(from.position.x, to.position.x, t);
+      object.position.z = lerp(from.position.z, to.position.z, t);
+      if (from.position.y !== undefined && to.position.y !== undefined) {
+        object.position.y = lerp(from.position.y, to.position.y, t);
+      }
+      if (from.rotY !== undefined && to.rotY !== undefined) {
+        const turn = Math.atan2(Math.sin(to.rotY - from.rotY), Math.cos(to.rotY - from.rotY));
+        object.rotation.y = from.rotY + turn * t;
+      }
+    } else if (track.type === "fade") {
+      const { from, to, t } = findSegment(track.keys, time);
+      this.host.ui.setFadeOpacity(lerp(from.opacity, to.opacity, t));
+    }
+  }
+}
+
+// Helper for hosts: switches the mixer to `clipName`; false when the model has no such clip.
+export function playAnimationClip(
+  mixer: AnimationMixer,
+  clips: AnimationClip[],
+  clipName: string,
+  loop: boolean
+): boolean {
+  const clip = AnimationClip.findByName(clips, clipName);
+  if (!clip) {
+    return false;
+  }
+  mixer.stopAllAction();
+  const action = mixer.clipAction(clip);
+  action.setLoop(loop ? LoopRepeat : LoopOnce, Infinity);
+  action.clampWhenFinished = !loop;
+  action.reset().play();
+  return true;
+}
+
+type TimedEntry = { time: number; ease?: CutsceneEase };
+
+function getEntries(track: CutsceneTrack): TimedEntry[] {
+  switch (track.type) {
+    case "camera":
+    case "transform":
+    case "fade":
+      return track.keys;
+    case "dialogue":
+      return track.lines;
+    default:
+      return track.cues;
+  }
+}
+
+function withEntries(track: CutsceneTrack, entries: TimedEntry[]): CutsceneTrack {
+  switch (track.type) {
+    case "camera":
+    case "transform":
+    case "fade":
+      return { ...track, keys: entries } as CutsceneTrack;
+    case "dialogue":
+      return { ...track, lines: entries } as CutsceneTrack;
+    default:
+      return { ...track, cues: entries } as CutsceneTrack;
+  }
+}
+
+function getTrackEnd(track: CutsceneTrack): number {
+  if (track.type === "dialogue") {
+    return Math.max(0, ...track.lines.map((line) => line.time + line.duration));
+  }
+  return Math.max(0, ...getEntries(track).map((entry) => entry.time));
+}
+
+function isEntry(type: CutsceneTrack["type"], value: unknown): boolean {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const entry = value as Record<string, unknown>;
+  if (!isNumber(entry.time) || (entry.time as number) < 0) {
+    return false;
+  }
+  if (entry.ease !== undefined && !EASES.includes(String(entry.ease))) {
+    return false;
+  }
+  switch (type) {
+    case "camera":
+      return isVector(entry.position, ["x", "y", "z"]) && isVector(entry.lookAt, ["x", "y", "z"]);
+    case "transform":
+      return (
+        isVector(entry.position, ["x", "z"]) &&
+        (entry.rotY === undefined || isNumber(entry.rotY)) &&
+        ((entry.position as Record<string, unknown>).y === undefined ||
+          isNumber((entry.position as Record<string, unknown>).y))
+      );
+    case "fade":
+      return isNumber(entry.opacity);
+    case "animation":
+      return typeof entry.clip === "string";
+    case "dialogue":
+      return typeof entry.speaker === "string" && typeof entry.text === "string" && isNumber(entry.duration);
+    case "audio":
+      return typeof entry.sound === "string" && (entry.volume === undefined || isNumber(entry.volume));
+  }
+}
+
+// The two keys around `time` and how far between them (eased); clamped to the first / last key.
+function findSegment<T extends TimedEntry>(keys: T[], time: number): { from: T; to: T; t: number } {
+  let index = 0;
+  while (index < keys.length - 1 && keys[index + 1].time <= time) {
+    index += 1;
+  }
+  const from = keys[index];
+  const to = keys[Math.min(index + 1, keys.length - 1)];
+  if (to === from || to.time <= from.time) {
+    return { from, to: from, t: 0 };
+  }
+  const t = Math.min(1, Math.max(0, (time - from.time) / (to.time - from.time)));
+  return { from, to, t: applyEase(to.ease ?? "linear", t) };
+}
+
+function applyEase(ease: CutsceneEase, t: number): number {
+  switch (ease) {
+    case "in":
+      return t * t;
+    case "out":
+      return 1 - (1 - t) * (1 - t);
+    case "inOut":
+      return t * t * (3 - 2 * t);
+    default:
+      return t;
+  }
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function isNumber(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isVector(value: unknown, keys: string[]): boolean {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return keys.every((key) => isNumber(record[key]));
+}
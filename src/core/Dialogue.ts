@@ -0,0 +1,345 @@
+import { isTransitionEffectName, TransitionEffectName } from "../render/Transitions";
+import type { FlagValue, GameFlags } from "./GameFlags";
+import { getItemFlag } from "./Inventory";
+
+export interface DialogueCondition {
+  flag: string;
+  equals?: FlagValue;
+  notEquals?: FlagValue;
+  min?: number;
+  max?: number;
+}
+
+export type DialogueAction =
+  | { type: "setFlag"; flag: string; value: FlagValue }
+  | { type: "addFlag"; flag: string; amount: number }
+  | { type: "giveItem"; item: string; count?: number }
+  | { type: "takeItem"; item: string; count?: number }
+  | { type: "transition"; target: string; effect?: TransitionEffectName };
+
+export interface DialogueBranch {
+  node: string;
+  conditions?: DialogueCondition[];
+}
+
+export type DialogueNext = string | DialogueBranch[];
+
+export interface DialogueChoice {
+  text: string;
+  next?: DialogueNext;
+  conditions?: DialogueCondition[];
+  // When set, a choice with unmet conditions stays visible but disabled with this explanation.
+  disabledReason?: string;
+  actions?: DialogueAction[];
+}
+
+export interface DialogueNode {
+  speaker: string;
+  text: string;
+  next?: DialogueNext;
+  choices?: DialogueChoice[];
+  actions?: DialogueAction[];
+}
+
+export interface DialogueGraph {
+  id: string;
+  start: DialogueNext;
+  nodes: Record<string, DialogueNode>;
+}
+
+export interface DialogueChoiceView {
+  index: number;
+  text: string;
+  disabled: boolean;
+  disabledReason?: string;
+}
+
+export interface DialogueView {
+  nodeId: string;
+  speaker: string;
+  text: string;
+  choices: DialogueChoiceView[];
+}
+
+export interface DialogueContext {
+  flags: GameFlags;
+  // Receives every action the runner does not resolve itself (flag writes are handled internally).
+  onAction: (action: DialogueAction) => void;
+}
+
+export function isDialogueConditionMet(flags: GameFlags, condition: DialogueCondition): boolean {
+  const value = flags.get(condition.flag);
+
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false;
+  }
+  if (condition.notEquals !== undefined && value === condition.notEquals) {
+    return false;
+  }
+  if (condition.min !== undefined && flags.getNumber(condition.flag) < condition.min) {
+    return false;
+  }
+  if (condition.max !== undefined && flags.getNumber(condition.flag) > condition.max) {
+    return false;
+  }
+
+  // A bare `{ flag }` condition means "flag is set and truthy".
+  if (
+    condition.equals === undefined &&
+    condition.notEquals === undefined &&
+    condition.min === undefined &&
+    condition.max === undefined
+  ) {
+    return Boolean(value);
+  }
+
+  return true;
+}
+
+export function areDialogueConditionsMet(flags: GameFlags, conditions: DialogueCondition[] | undefined): boolean {
+  return (conditions ?? []).every((condition) => isDialogueConditionMet(flags, condition));
+}
+
+// Shape checks shared by every loader whose data runs through `runDialogueActions` (dialogue, quests, levels).
+export function isDialogueCondition(value: unknown): value is DialogueCondition {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const condition = value as Record<string, unknown>;
+  return (
+    isNonEmptyString(condition.flag) &&
+    ["equals", "notEquals"].every((key) => condition[key] === undefined || isFlagValue(condition[key])) &&
+    ["min", "max"].every((key) => condition[key] === undefined || isFiniteNumber(condition[key]))
+  );
+}
+
+export function isDialogueConditionList(value: unknown): value is DialogueCondition[] | undefined {
+  return value === undefined || (Array.isArray(value) && value.every(isDialogueCondition));
+}
+
+export function isDialogueAction(value: unknown): value is DialogueAction {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const action = value as Record<string, unknown>;
+  switch (action.type) {
+    case "setFlag":
+      return isNonEmptyString(action.flag) && isFlagValue(action.value);
+    case "addFlag":
+      return isNonEmptyString(action.flag) && isFiniteNumber(action.amount);
+    case "giveItem":
+    case "takeItem":
+      return isNonEmptyString(action.item) && (action.count === undefined || isFiniteNumber(action.count));
+    case "transition":
+      return isNonEmptyString(action.target) && (action.effect === undefined || isTransitionEffectName(action.effect));
+    default:
+      return false;
+  }
+}
+
+export function isDialogueActionList(value: unknown): value is DialogueAction[] | undefined {
+  return value === undefined || (Array.isArray(value) && value.every(isDialogueAction));
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value !== "";
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isFlagValue(value: unknown): value is FlagValue {
+  return typeof value === "boolean" || typeof value === "string" || isFiniteNumber(value);
+}
+
+export function parseDialogueGraph(data: unknown): DialogueGraph {
+  if (!data || typeof data !== "object") {
+    throw new Error("Dialogue graph must be an object");
+  }
+
+  const graph = data as Partial<DialogueGraph>;
+  if (typeof graph.id !== "string") {
+    throw new Error("Dialogue graph is missing 'id'");
+  }
+  if (!graph.nodes || typeof graph.nodes !== "object") {
+    throw new Error(`Dialogue '${graph.id}' is missing 'nodes'`);
+  }
+  if (graph.start === undefined) {
+    throw new Error(`Dialogue '${graph.id}' is missing 'start'`);
+  }
+
+  const nodes = graph.nodes;
+  const checkNext = (next: DialogueNext | undefined, where: string): void => {
+    if (next === undefined) {
+      return;
+    }
+    const valid =
+      typeof next === "string" ||
+      (Array.isArray(next) &&
+        next.every((branch) => typeof branch?.node === "string" && isDialogueConditionList(branch.conditions)));
+    if (!valid) {
+      throw new Error(`Dialogue '${graph.id}': ${where} has an invalid 'next'`);
+    }
+    const targets = typeof next === "string" ? [next] : next.map((branch) => branch.node);
+    for (const target of targets) {
+      if (!nodes[target]) {
+        throw new Error(`Dialogue '${graph.id}': ${where} points to unknown node '${target}'`);
+      }
+    }
+  };
+
+  checkNext(graph.start, "start");
+  for (const [nodeId, node] of Object.entries(nodes)) {
+    if (typeof node.speaker !== "string" || typeof node.text !== "string") {
+      throw new Error(`Dialogue '${graph.id}': node '${nodeId}' needs 'speaker' and 'text'`);
+    }
+    if (!isDialogueActionList(node.actions)) {
+      throw new Error(`Dialogue '${graph.id}': node '${nodeId}' has an invalid 'actions' list`);
+    }
+    checkNext(node.next, `node '${nodeId}'`);
+    if (node.choices !== undefined && !Array.isArray(node.choices)) {
+      throw new Error(`Dialogue '${graph.id}': node '${nodeId}' has an invalid 'choices' list`);
+    }
+    node.choices?.forEach((choice, index) => {
+      const where = `choice ${index} of '${nodeId}'`;
+      if (typeof choice?.text !== "string") {
+        throw new Error(`Dialogue '${graph.id}': ${where} needs 'text'`);
+      }
+      if (!isDialogueConditionList(choice.conditions) || !isDialogueActionList(choice.actions)) {
+        throw new Error(`Dialogue '${graph.id}': ${where} has invalid 'conditions' or 'actions'`);
+      }
+      checkNext(choice.next, where);
+    });
+  }
+
+  return graph as DialogueGraph;
+}
+
+export class DialogueRunner {
+  private readonly graph: DialogueGraph;
+  private readonly context: DialogueContext;
+
+  private currentNodeId: string | null = null;
+  private visibleChoices: DialogueChoice[] = [];
+  private enabledChoices: boolean[] = [];
+  private view: DialogueView | null = null;
+
+  constructor(graph: DialogueGraph, context: DialogueContext) {
+    this.graph = graph;
+    this.context = context;
+  }
+
+  get current(): DialogueView | null {
+    return this.view;
+  }
+
+  get finished(): boolean {
+    return this.currentNodeId === null;
+  }
+
+  start(): DialogueView | null {
+    return this.goTo(this.resolveNext(this.graph.start));
+  }
+
+  advance(): DialogueView | null {
+    if (!this.currentNodeId || this.visibleChoices.length > 0) {
+      return this.view;
+    }
+
+    const node = this.graph.nodes[this.currentNodeId];
+    return this.goTo(this.resolveNext(node.next));
+  }
+
+  choose(index: number): DialogueView | null {
+    const choice = this.visibleChoices[index];
+    if (!choice || !this.enabledChoices[index]) {
+      return this.view;
+    }
+
+    this.runActions(choice.actions);
+    return this.goTo(this.resolveNext(choice.next));
+  }
+
+  private goTo(nodeId: string | null): DialogueView | null {
+    this.currentNodeId = nodeId;
+    this.visibleChoices = [];
+    this.enabledChoices = [];
+    this.view = null;
+
+    if (!nodeId) {
+      return null;
+    }
+
+    const node = this.graph.nodes[nodeId];
+    this.runActions(node.actions);
+
+    for (const choice of node.choices ?? []) {
+      const enabled = areDialogueConditionsMet(this.context.flags, choice.conditions);
+      if (enabled || choice.disabledReason) {
+        this.visibleChoices.push(choice);
+        this.enabledChoices.push(enabled);
+      }
+    }
+    // Only disabled choices left: nothing can be picked, so the node advances like one without choices.
+    if (!this.enabledChoices.includes(true)) {
+      this.visibleChoices = [];
+      this.enabledChoices = [];
+    }
+
+    this.view = {
+      nodeId,
+      speaker: node.speaker,
+      text: node.text,
+      choices: this.visibleChoices.map((choice, index) => ({
+        index,
+        text: choice.text,
+        disabled: !this.enabledChoices[index],
+        disabledReason: this.enabledChoices[index] ? undefined : choice.disabledReason
+      }))
+    };
+    return this.view;
+  }
+
+  private resolveNext(next: DialogueNext | undefined): string | null {
+    if (next === undefined) {
+      return null;
+    }
+    if (typeof next === "string") {
+      return next;
+    }
+
+    const branch = next.find((candidate) => areDialogueConditionsMet(this.context.flags, candidate.conditions));
+    return branch?.node ?? null;
+  }
+
+  private runActions(actions: DialogueAction[] | undefined): void {
+    runDialogueActions(this.context, actions);
+  }
+}
+
+// Flag and item writes are applied to `context.flags`; everything else goes to `context.onAction`.
+export function runDialogueActions(context: DialogueContext, actions: DialogueAction[] | undefined): void {
+  for (const action of actions ?? []) {
+    switch (action.type) {
+      case "setFlag":
+        context.flags.set(action.flag, action.value);
+        break;
+      case "addFlag":
+        context.flags.add(action.flag, action.amount);
+        break;
+      case "giveItem":
+        context.flags.add(getItemFlag(action.item), action.count ?? 1);
+        break;
+      case "takeItem": {
+        // Takes what there is when the kitty carries fewer.
+        const flag = getItemFlag(action.item);
+        context.flags.set(flag, Math.max(0, context.flags.getNumber(flag) - (action.count ?? 1)));
+        break;
+      }
+      default:
+        context.onAction(action);
+        break;
+    }
+  }
+}
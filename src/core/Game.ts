@@ -1,14 +1,48 @@
 import { AudioListener } from "three";
 import { Assets } from "./Assets";
+import type { DialogueAction } from "./Dialogue";
+import { GameFlags } from "./GameFlags";
 import { Input } from "./Input";
+import { Inventory } from "./Inventory";
+import { QuestEvent, QuestLog } from "./Quests";
+import { AUTOSAVE_SLOT, SaveData, SaveSystem } from "./SaveSystem";
+import { GameSettings, Settings } from "./Settings";
 import { StateMachine } from "./StateMachine";
 import { ClubScene } from "../scenes/ClubScene";
+import { ControlsScene } from "../scenes/ControlsScene";
+import { InventoryScene } from "../scenes/InventoryScene";
+import { LevelEditorScene } from "../scenes/LevelEditorScene";
+import { PauseScene } from "../scenes/PauseScene";
+import { SettingsScene } from "../scenes/SettingsScene";
+import { TitleScene } from "../scenes/TitleScene";
 import { WorldScene } from "../scenes/WorldScene";
 import { UI } from "../ui/UI";
 import { PS1Renderer } from "../render/PS1Renderer";
+import { animateTransition, TransitionEffect } from "../render/Transitions";
+import { createRandomSeed } from "../utils/WorldLayout";
 
 const STATE_WORLD = "STATE_A_WORLD";
 const STATE_CLUB = "STATE_B_CLUB";
+const STATE_TITLE = "STATE_TITLE";
+const STATE_PAUSE = "STATE_PAUSE";
+const STATE_SETTINGS = "STATE_SETTINGS";
+const STATE_CONTROLS = "STATE_CONTROLS";
+const STATE_INVENTORY = "STATE_INVENTORY";
+// Dev builds only: level editor overlay on top of the world, toggled with EDITOR_KEY.
+const STATE_EDITOR = "STATE_EDITOR";
+const EDITOR_KEY = "F2";
+// Overlays closed by the pause button, on top of whichever scene opened them.
+const MENU_OVERLAYS = [STATE_PAUSE, STATE_SETTINGS, STATE_CONTROLS, STATE_INVENTORY];
+// Scenes that can be paused and saved; title and overlays are not part of a save.
+const GAMEPLAY_STATES = [STATE_WORLD, STATE_CLUB];
+const AUTOSAVE_INTERVAL_SECONDS = 15;
+// Names dialogue files use in `transition` actions.
+const DIALOGUE_TARGETS: Record<string, string> = {
+  world: STATE_WORLD,
+  club: STATE_CLUB,
+  title: STATE_TITLE
+};
+const QUESTS_PATH = "/assets/quests.json";
 
 export class Game {
   private readonly mount: HTMLElement;
@@ -20,15 +54,27 @@ export class Game {
   private readonly ui: UI;
   private readonly stateMachine: StateMachine;
   private readonly listener: AudioListener;
+  private readonly flags: GameFlags;
+  private readonly quests: QuestLog;
+  private readonly inventory: Inventory;
+  private readonly saves: SaveSystem;
+  private readonly settings: Settings;
 
+  private readonly titleScene: TitleScene;
+  private readonly pauseScene: PauseScene;
+  private readonly settingsScene: SettingsScene;
+  private readonly controlsScene: ControlsScene;
+  private readonly inventoryScene: InventoryScene;
   private readonly worldScene: WorldScene;
   private readonly clubScene: ClubScene;
+  private readonly levelEditor: LevelEditorScene | null;
 
   private running = false;
   private rafId = 0;
   private lastTimestamp = 0;
   private inTransition = false;
   private audioUnlocked = false;
+  private autosaveTimer = 0;
 
   constructor(mount: HTMLElement) {
     this.mount = mount;
@@ -37,30 +83,95 @@ export class Game {
     this.root.className = "game-root";
     this.mount.append(this.root);
 
-    this.renderer = new PS1Renderer(this.root, {
-      pixelScale: 3,
-      enableDither: true,
-      enableUvWobble: true,
-      colorLevels: 48
-    });
+    this.settings = new Settings();
+    this.renderer = new PS1Renderer(this.root, this.settings.values.renderer);
 
     this.assets = new Assets();
     this.input = new Input();
-    this.ui = new UI(this.root);
-    this.stateMachine = new StateMachine();
     this.listener = new AudioListener();
+    this.ui = new UI(this.root, this.input, this.listener);
+    this.stateMachine = new StateMachine();
+    this.flags = new GameFlags();
+    this.quests = new QuestLog(this.flags, (action) => this.runQuestAction(action));
+    this.quests.onEvent((event) => this.announceQuest(event));
+    this.inventory = new Inventory(this.flags);
+    this.saves = new SaveSystem();
     this.input.onUserGesture(() => {
       void this.unlockAudio();
     });
 
+    this.titleScene = new TitleScene({
+      assets: this.assets,
+      ui: this.ui,
+      renderHook: (scene, camera, deltaSeconds) => this.renderer.render(scene, camera, deltaSeconds),
+      listSaves: () => this.saves.listSlots(),
+      onNewGame: () => {
+        void this.beginGame(null);
+      },
+      onContinue: (slot) => {
+        void this.beginGame(this.saves.load(slot));
+      },
+      onSettings: () => {
+        void this.stateMachine.push(STATE_SETTINGS);
+      }
+    });
+
+    this.pauseScene = new PauseScene({
+      ui: this.ui,
+      listSaves: () => this.saves.listSlots(),
+      onResume: () => {
+        void this.stateMachine.pop();
+      },
+      onSave: (slot) => this.saveGame(slot),
+      onSettings: () => {
+        void this.stateMachine.push(STATE_SETTINGS);
+      },
+      onQuitToTitle: () => {
+        void this.quitToTitle();
+      }
+    });
+
+    this.settingsScene = new SettingsScene({
+      ui: this.ui,
+      settings: this.settings,
+      onControls: () => {
+        void this.stateMachine.push(STATE_CONTROLS);
+      },
+      onClose: () => {
+        void this.stateMachine.pop();
+      }
+    });
+
+    this.controlsScene = new ControlsScene({
+      ui: this.ui,
+      input: this.input,
+      settings: this.settings,
+      onClose: () => {
+        void this.stateMachine.pop();
+      }
+    });
+
+    this.inventoryScene = new InventoryScene({
+      ui: this.ui,
+      inventory: this.inventory,
+      onClose: () => {
+        void this.stateMachine.pop();
+      }
+    });
+
     this.worldScene = new WorldScene({
       assets: this.assets,
       input: this.input,
       ui: this.ui,
       audioListener: this.listener,
+      flags: this.flags,
+      inventory: this.inventory,
       renderHook: (scene, camera, deltaSeconds) => this.renderer.render(scene, camera, deltaSeconds),
-      onDialogueFinished: () => {
-        void this.transitionToClub();
+      onDialogueTransition: (target, effect) => {
+        const stateKey = DIALOGUE_TARGETS[target];
+        if (stateKey) {
+          void this.transitionTo(stateKey, effect);
+        }
       },
       onDialogueGesture: () => {
         void this.unlockAudio();
@@ -69,20 +180,59 @@ export class Game {
 
     this.clubScene = new ClubScene({
       assets: this.assets,
+      input: this.input,
       ui: this.ui,
+      flags: this.flags,
+      inventory: this.inventory,
       audioListener: this.listener,
       renderHook: (scene, camera, deltaSeconds) => this.renderer.render(scene, camera, deltaSeconds)
     });
 
+    this.levelEditor = import.meta.env.DEV
+      ? new LevelEditorScene({ input: this.input, ui: this.ui, world: this.worldScene })
+      : null;
+
+    this.stateMachine.on((key, event) => {
+      if (!GAMEPLAY_STATES.includes(key)) {
+        return;
+      }
+      if (event === "enter") {
+        this.autosaveTimer = 0;
+        // Lets dialogue and quests know where the player has been, e.g. `visited_club`.
+        const name = Object.keys(DIALOGUE_TARGETS).find((target) => DIALOGUE_TARGETS[target] === key);
+        if (name) {
+          this.flags.set(`visited_${name}`, true);
+        }
+      } else if (event === "pause") {
+        // Opening the pause menu is a natural checkpoint.
+        this.saveGame();
+      }
+    });
+
+    this.stateMachine.register(STATE_TITLE, this.titleScene);
+    this.stateMachine.register(STATE_PAUSE, this.pauseScene);
+    this.stateMachine.register(STATE_SETTINGS, this.settingsScene);
+    this.stateMachine.register(STATE_CONTROLS, this.controlsScene);
+    this.stateMachine.register(STATE_INVENTORY, this.inventoryScene);
+
+    this.applySettings(this.settings.values);
+    this.settings.onChange((values) => this.applySettings(values));
     this.stateMachine.register(STATE_WORLD, this.worldScene);
     this.stateMachine.register(STATE_CLUB, this.clubScene);
+    if (this.levelEditor) {
+      this.stateMachine.register(STATE_EDITOR, this.levelEditor);
+    }
   }
 
   async start(): Promise<void> {
     this.onResize();
     window.addEventListener("resize", this.onResize);
+    window.addEventListener("pagehide", this.onPageHide);
+    document.addEventListener("fullscreenchange", this.onFullscreenChange);
 
-    await this.stateMachine.change(STATE_WORLD);
+    this.quests.setDefinitions(await this.assets.loadQuests(QUESTS_PATH));
+    await this.stateMachine.change(STATE_TITLE);
+    this.onResize();
     await this.ui.fadeIn(450);
 
     this.running = true;
@@ -90,12 +240,65 @@ export class Game {
     this.rafId = window.requestAnimationFrame(this.tick);
   }
 
+  // Covers the screen with `effect`, swaps the base state, then reveals the new scene.
+  // `beforeEnter` runs while the screen is fully covered, right before the new state enters.
+  async transitionTo(
+    stateKey: string,
+    effect: TransitionEffect = { name: "fade" },
+    beforeEnter?: () => void
+  ): Promise<boolean> {
+    if (this.inTransition || this.stateMachine.base === stateKey) {
+      return false;
+    }
+
+    this.inTransition = true;
+    this.ui.hideMenu();
+    let changed = false;
+    try {
+      await animateTransition(this.renderer, effect, 0, 1);
+
+      beforeEnter?.();
+      changed = await this.stateMachine.change(stateKey);
+      if (changed) {
+        this.clubScene.setAudioUnlocked(this.audioUnlocked);
+        this.onResize();
+        this.saveGame();
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(`[Game] Transition to '${stateKey}' failed.`, error);
+      changed = false;
+    } finally {
+      // The point the effect closed on belongs to the old scene, so reveal from screen center.
+      await animateTransition(this.renderer, { ...effect, center: undefined }, 1, 0);
+      this.inTransition = false;
+    }
+    return changed;
+  }
+
+  saveGame(slot: string = AUTOSAVE_SLOT): boolean {
+    const base = this.stateMachine.base;
+    if (!base || !GAMEPLAY_STATES.includes(base)) {
+      return false;
+    }
+
+    return this.saves.save(slot, {
+      currentState: base,
+      audioUnlocked: this.audioUnlocked,
+      flags: this.flags.snapshot(),
+      states: this.stateMachine.serializeStates()
+    });
+  }
+
   dispose(): void {
     this.running = false;
     window.cancelAnimationFrame(this.rafId);
     window.removeEventListener("resize", this.onResize);
+    window.removeEventListener("pagehide", this.onPageHide);
+    document.removeEventListener("fullscreenchange", this.onFullscreenChange);
 
     this.input.dispose();
+    this.ui.dispose();
     this.renderer.dispose();
   }
 
@@ -107,10 +310,29 @@ export class Game {
     const deltaSeconds = Math.min((timestamp - this.lastTimestamp) / 1000, 1 / 20);
     this.lastTimestamp = timestamp;
 
+    this.input.update();
+    if (this.input.consumeAction("pause")) {
+      void this.togglePause();
+    } else if (this.input.consumeAction("inventory")) {
+      void this.toggleInventory();
+    }
+    if (this.levelEditor && this.input.consumePressed(EDITOR_KEY)) {
+      void this.toggleEditor();
+    }
+
+    this.ui.update(deltaSeconds);
     this.stateMachine.update(deltaSeconds);
+    this.updateQuests();
     this.stateMachine.render(deltaSeconds);
     this.input.endFrame();
 
+    const paused = this.stateMachine.current === STATE_PAUSE;
+    this.autosaveTimer += deltaSeconds;
+    if (this.autosaveTimer >= AUTOSAVE_INTERVAL_SECONDS && !this.inTransition && !paused) {
+      this.autosaveTimer = 0;
+      this.saveGame();
+    }
+
     this.rafId = window.requestAnimationFrame(this.tick);
   };
 
@@ -122,20 +344,132 @@ export class Game {
     this.stateMachine.resize(width, height);
   };
 
-  private async transitionToClub(): Promise<void> {
-    if (this.inTransition || this.stateMachine.current === STATE_CLUB) {
+  private readonly onPageHide = (): void => {
+    if (!this.inTransition) {
+      this.saveGame();
+    }
+  };
+
+  private readonly onFullscreenChange = (): void => {
+    // Keep the stored setting in sync when the browser leaves fullscreen on its own (Esc, F11).
+    const active = document.fullscreenElement !== null;
+    if (active !== this.settings.values.fullscreen) {
+      this.settings.update({ fullscreen: active });
+    }
+  };
+
+  // Quests only advance (and announce themselves) while a gameplay scene is on top.
+  private updateQuests(): void {
+    const current = this.stateMachine.current;
+    const playing = current !== null && GAMEPLAY_STATES.includes(current);
+    if (playing && this.quests.update()) {
+      this.ui.setQuestLog(this.quests.getEntries());
+    }
+    this.ui.setQuestLogVisible(playing);
+  }
+
+  private announceQuest(event: QuestEvent): void {
+    const { title } = event.quest;
+    if (event.type === "started") {
+      this.ui.showNotice(`New quest: ${title}`);
+    } else if (event.type === "step") {
+      this.ui.showNotice(`Quest updated: ${title}`);
+    } else {
+      this.ui.showNotice(`Quest complete: ${title}`);
+    }
+  }
+
+  private runQuestAction(action: DialogueAction): void {
+    if (action.type !== "transition") {
       return;
     }
+    const stateKey = DIALOGUE_TARGETS[action.target];
+    if (stateKey) {
+      void this.transitionTo(stateKey, { name: action.effect ?? "fade" });
+    }
+  }
 
-    this.inTransition = true;
-    await this.ui.fadeOut(520);
+  private applySettings(values: GameSettings): void {
+    this.renderer.setOptions(values.renderer);
+    this.input.setBindings(values.bindings);
+    this.worldScene.setMovementScheme(values.movementScheme);
+    this.worldScene.setGroundTilt(values.tiltToGround);
 
-    await this.stateMachine.change(STATE_CLUB);
-    this.clubScene.setAudioUnlocked(this.audioUnlocked);
-    this.onResize();
+    const { master, music, sfx } = values.volume;
+    this.worldScene.setMusicVolume(master * music);
+    this.clubScene.setMusicVolume(master * music);
+    this.worldScene.setSfxVolume(master * sfx);
+    this.clubScene.setSfxVolume(master * sfx);
+    this.ui.setSfxVolume(master * sfx);
 
-    await this.ui.fadeIn(520);
-    this.inTransition = false;
+    // Browsers only allow entering fullscreen from a user gesture, so a stored "on" is
+    // applied the next time the player toggles it rather than at boot.
+    const active = document.fullscreenElement !== null;
+    if (values.fullscreen && !active && navigator.userActivation?.isActive) {
+      void this.root.requestFullscreen().catch(() => undefined);
+    } else if (!values.fullscreen && active) {
+      void document.exitFullscreen().catch(() => undefined);
+    }
+  }
+
+  private async beginGame(save: SaveData | null): Promise<void> {
+    const target = save?.currentState && GAMEPLAY_STATES.includes(save.currentState) ? save.currentState : STATE_WORLD;
+    await this.transitionTo(target, { name: "iris" }, () => {
+      this.flags.restore(save?.flags ?? {});
+      this.stateMachine.deserializeStates(save?.states ?? {});
+      // A save carries its own village seed; a new game picks one from the settings.
+      if (!save) {
+        this.worldScene.setLayoutSeed(this.settings.values.village === "random" ? createRandomSeed() : null);
+      }
+      if (save?.audioUnlocked) {
+        // The menu pick that got us here is a user gesture, so resuming the context is allowed.
+        void this.unlockAudio();
+      }
+    });
+  }
+
+  private async quitToTitle(): Promise<void> {
+    this.saveGame();
+    await this.transitionTo(STATE_TITLE, { name: "dissolve" });
+  }
+
+  private async togglePause(): Promise<void> {
+    if (this.inTransition) {
+      return;
+    }
+
+    const current = this.stateMachine.current;
+    if (current && MENU_OVERLAYS.includes(current)) {
+      await this.stateMachine.pop();
+    } else if (current && GAMEPLAY_STATES.includes(current)) {
+      await this.stateMachine.push(STATE_PAUSE);
+    }
+  }
+
+  private async toggleInventory(): Promise<void> {
+    if (this.inTransition) {
+      return;
+    }
+
+    const current = this.stateMachine.current;
+    if (current === STATE_INVENTORY) {
+      await this.stateMachine.pop();
+    } else if (current && GAMEPLAY_STATES.includes(current)) {
+      await this.stateMachine.push(STATE_INVENTORY);
+    }
+  }
+
+  private async toggleEditor(): Promise<void> {
+    if (this.inTransition) {
+      return;
+    }
+
+    const current = this.stateMachine.current;
+    if (current === STATE_EDITOR) {
+      await this.stateMachine.pop();
+    } else if (current === STATE_WORLD) {
+      await this.stateMachine.push(STATE_EDITOR);
+    }
   }
 
   private async unlockAudio(): Promise<void> {
@@ -0,0 +1,76 @@
+export type FlagValue = boolean | number | string;
+
+type FlagListener = (name: string, value: FlagValue | undefined) => void;
+
+export class GameFlags {
+  private readonly values = new Map<string, FlagValue>();
+  private readonly listeners = new Set<FlagListener>();
+
+  has(name: string): boolean {
+    return this.values.has(name);
+  }
+
+  get(name: string): FlagValue | undefined {
+    return this.values.get(name);
+  }
+
+  getNumber(name: string): number {
+    const value = this.values.get(name);
+    if (typeof value === "number") {
+      return value;
+    }
+    if (typeof value === "boolean") {
+      return value ? 1 : 0;
+    }
+    return 0;
+  }
+
+  set(name: string, value: FlagValue): void {
+    if (this.values.get(name) === value) {
+      return;
+    }
+    this.values.set(name, value);
+    this.notify(name, value);
+  }
+
+  add(name: string, amount: number): number {
+    const next = this.getNumber(name) + amount;
+    this.set(name, next);
+    return next;
+  }
+
+  clear(name: string): void {
+    if (!this.values.delete(name)) {
+      return;
+    }
+    this.notify(name, undefined);
+  }
+
+  snapshot(): Record<string, FlagValue> {
+    return Object.fromEntries(this.values);
+  }
+
+  restore(values: Record<string, FlagValue>): void {
+    const names = new Set([...this.values.keys(), ...Object.keys(values)]);
+    for (const name of names) {
+      if (name in values) {
+        this.set(name, values[name]);
+      } else {
+        this.clear(name);
+      }
+    }
+  }
+
+  onChange(listener: FlagListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(name: string, value: FlagValue | undefined): void {
+    for (const listener of this.listeners) {
+      listener(name, value);
+    }
+  }
+}
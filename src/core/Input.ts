@@ -1,31 +1,114 @@
 import { Vector2 } from "three";
+import {
+  DEFAULT_BINDINGS,
+  INPUT_ACTIONS,
+  POINTER_BINDING,
+  cloneBindings,
+  formatBinding,
+  getBindingDevice,
+  type BindingDevice,
+  type InputAction,
+  type InputBinding,
+  type InputBindings
+} from "./InputActions";
 
 type UserGestureCallback = () => void;
+type BindingCaptureCallback = (binding: InputBinding | null) => void;
 
-const MOVE_KEYS = ["KeyW", "KeyA", "KeyS", "KeyD", "ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"];
+// Standard Gamepad API layout; pressed buttons are surfaced as pseudo key codes.
+const PAD_BUTTON_CODES: Array<[number, string]> = [
+  [0, "PadA"],
+  [1, "PadB"],
+  [2, "PadX"],
+  [3, "PadY"],
+  [4, "PadLB"],
+  [5, "PadRB"],
+  [8, "PadSelect"],
+  [9, "PadStart"],
+  [12, "PadUp"],
+  [13, "PadDown"],
+  [14, "PadLeft"],
+  [15, "PadRight"]
+];
+
+// Left stick; radial deadzone, rescaled so movement starts from zero at its edge.
+const STICK_AXIS_X = 0;
+const STICK_AXIS_Y = 1;
+// Right stick X turns the camera.
+const CAMERA_AXIS_X = 2;
+const STICK_DEADZONE = 0.2;
+// The on-screen stick has no drift, only thumb jitter around its center.
+const TOUCH_STICK_DEADZONE = 0.12;
+// Stick flicks also surface as pseudo codes (menus); hysteresis avoids chatter around the threshold.
+const STICK_PRESS_THRESHOLD = 0.65;
+const STICK_RELEASE_THRESHOLD = 0.45;
+
+// Not exposed by the DOM lib typings yet (Chromium only).
+interface KeyboardLayoutApi {
+  getLayoutMap(): Promise<ReadonlyMap<string, string>>;
+}
 
 export class Input {
   private readonly down = new Set<string>();
   private readonly pressed = new Set<string>();
-  private pointerPressed = false;
+  private padDown = new Set<string>();
+  private readonly stick = new Vector2();
+  private readonly touchStick = new Vector2();
+  private cameraStick = 0;
+  private dragPointer: number | null = null;
+  private dragX = 0;
+  private dragDeltaX = 0;
+  private readonly virtualDown = new Set<string>();
+  private readonly connectedPads = new Map<number, string>();
+  private lastDevice: BindingDevice = "keyboard";
   private readonly gestureCallbacks = new Set<UserGestureCallback>();
+  private bindings = cloneBindings(DEFAULT_BINDINGS);
+  private boundKeys = new Set<string>();
+  private captureCallback: BindingCaptureCallback | null = null;
+  private layoutMap: ReadonlyMap<string, string> | undefined;
 
   constructor() {
+    this.indexBoundKeys();
+    void this.loadKeyboardLayout();
     window.addEventListener("keydown", this.onKeyDown);
     window.addEventListener("keyup", this.onKeyUp);
     window.addEventListener("pointerdown", this.onPointerDown);
+    window.addEventListener("pointerup", this.onPointerUp);
+    window.addEventListener("pointercancel", this.onPointerUp);
+    window.addEventListener("pointermove", this.onPointerMove);
+    window.addEventListener("gamepadconnected", this.onGamepadConnected);
+    window.addEventListener("gamepaddisconnected", this.onGamepadDisconnected);
   }
 
   dispose(): void {
     window.removeEventListener("keydown", this.onKeyDown);
     window.removeEventListener("keyup", this.onKeyUp);
     window.removeEventListener("pointerdown", this.onPointerDown);
+    window.removeEventListener("pointerup", this.onPointerUp);
+    window.removeEventListener("pointercancel", this.onPointerUp);
+    window.removeEventListener("pointermove", this.onPointerMove);
+    window.removeEventListener("gamepadconnected", this.onGamepadConnected);
+    window.removeEventListener("gamepaddisconnected", this.onGamepadDisconnected);
+    this.cancelCapture();
   }
 
   onUserGesture(callback: UserGestureCallback): void {
     this.gestureCallbacks.add(callback);
   }
 
+  get hasGamepad(): boolean {
+    return this.connectedPads.size > 0;
+  }
+
+  getBindings(): InputBindings {
+    return cloneBindings(this.bindings);
+  }
+
+  setBindings(bindings: InputBindings): void {
+    this.bindings = cloneBindings(bindings);
+    this.indexBoundKeys();
+  }
+
   isDown(code: string): boolean {
     return this.down.has(code);
   }
@@ -38,42 +121,114 @@ export class Input {
     return true;
   }
 
-  consumeInteract(): boolean {
-    return this.consumePressed("KeyE");
+  isActionDown(action: InputAction): boolean {
+    return this.bindings[action].some((binding) => this.down.has(binding));
   }
 
-  consumeDialogueAdvance(): boolean {
-    if (this.consumePressed("Space") || this.consumePressed("Enter")) {
-      return true;
+  // Consumes every binding of the action pressed this frame so one press never counts twice.
+  consumeAction(action: InputAction): boolean {
+    let pressed = false;
+    for (const binding of this.bindings[action]) {
+      if (this.consumePressed(binding)) {
+        pressed = true;
+      }
     }
+    return pressed;
+  }
+
+  // Short label for prompts, e.g. "E / Pad A"; `limit` keeps only the first bindings,
+  // preferring the device the player used last (a pad user sees "Pad A" rather than "E").
+  describeAction(action: InputAction, limit = Infinity): string {
+    const bindings = this.bindings[action];
+    const preferred = bindings.filter((binding) => getBindingDevice(binding) === this.lastDevice);
+    const ordered = [...preferred, ...bindings.filter((binding) => !preferred.includes(binding))];
+    const labels = ordered.slice(0, limit).map((binding) => this.formatBinding(binding));
+    return labels.length > 0 ? labels.join(" / ") : "unbound";
+  }
+
+  formatBinding(binding: InputBinding): string {
+    return formatBinding(binding, this.layoutMap);
+  }
 
-    if (this.pointerPressed) {
-      this.pointerPressed = false;
-      return true;
+  // Resolves with the next key, click or pad button; Escape cancels with null.
+  captureBinding(): Promise<InputBinding | null> {
+    this.cancelCapture();
+    return new Promise((resolve) => {
+      this.captureCallback = resolve;
+    });
+  }
+
+  cancelCapture(): void {
+    this.finishCapture(null);
+  }
+
+  // Fed by the on-screen controls; codes are bindings like any key ("TouchA").
+  setVirtualButton(code: string, down: boolean): void {
+    if (down) {
+      if (!this.virtualDown.has(code)) {
+        this.pressed.add(code);
+      }
+      this.virtualDown.add(code);
+      this.down.add(code);
+      this.lastDevice = "touch";
+      this.notifyGesture();
+      return;
     }
 
-    return false;
+    this.virtualDown.delete(code);
+    this.down.delete(code);
   }
 
+  // On-screen stick deflection, -1..1 per axis with +y forward.
+  setTouchStick(x: number, y: number): void {
+    applyDeadzone(this.touchStick.set(x, y), TOUCH_STICK_DEADZONE);
+    if (this.touchStick.lengthSq() > 0) {
+      this.lastDevice = "touch";
+    }
+  }
+
+  // Digital bindings give unit directions; analog sticks keep their magnitude (0..1).
   getMovementVector(): Vector2 {
     let x = 0;
     let y = 0;
 
-    if (this.down.has("KeyA") || this.down.has("ArrowLeft")) x -= 1;
-    if (this.down.has("KeyD") || this.down.has("ArrowRight")) x += 1;
-    if (this.down.has("KeyW") || this.down.has("ArrowUp")) y += 1;
-    if (this.down.has("KeyS") || this.down.has("ArrowDown")) y -= 1;
+    if (this.isActionDown("moveLeft")) x -= 1;
+    if (this.isActionDown("moveRight")) x += 1;
+    if (this.isActionDown("moveUp")) y += 1;
+    if (this.isActionDown("moveDown")) y -= 1;
 
     const vec = new Vector2(x, y);
     if (vec.lengthSq() > 1) {
       vec.normalize();
     }
+
+    vec.add(this.stick).add(this.touchStick);
+    if (vec.lengthSq() > 1) {
+      vec.normalize();
+    }
     return vec;
   }
 
+  // Camera turn rate request, -1..1 (positive turns right): camera actions plus the right stick.
+  getCameraTurn(): number {
+    let turn = this.cameraStick;
+    if (this.isActionDown("cameraLeft")) turn -= 1;
+    if (this.isActionDown("cameraRight")) turn += 1;
+    return Math.max(-1, Math.min(1, turn));
+  }
+
+  // Horizontal pixels dragged this frame by a held pointer (mouse drag or a finger off the controls).
+  getPointerDragX(): number {
+    return this.dragDeltaX;
+  }
+
+  update(): void {
+    this.pollGamepads();
+  }
+
   endFrame(): void {
     this.pressed.clear();
-    this.pointerPressed = false;
+    this.dragDeltaX = 0;
   }
 
   private notifyGesture(): void {
@@ -82,8 +237,137 @@ export class Input {
     }
   }
 
+  private finishCapture(binding: InputBinding | null): void {
+    const callback = this.captureCallback;
+    if (!callback) {
+      return;
+    }
+    this.captureCallback = null;
+    callback(binding);
+  }
+
+  private indexBoundKeys(): void {
+    this.boundKeys = new Set<string>();
+    for (const action of INPUT_ACTIONS) {
+      for (const binding of this.bindings[action]) {
+        if (getBindingDevice(binding) === "keyboard") {
+          this.boundKeys.add(binding);
+        }
+      }
+    }
+  }
+
+  private async loadKeyboardLayout(): Promise<void> {
+    const keyboard = (navigator as Navigator & { keyboard?: KeyboardLayoutApi }).keyboard;
+    if (!keyboard) {
+      return;
+    }
+    try {
+      this.layoutMap = await keyboard.getLayoutMap();
+    } catch {
+      // Falls back to US labels derived from the key codes.
+    }
+  }
+
+  private pollGamepads(): void {
+    const pads = typeof navigator.getGamepads === "function" ? navigator.getGamepads() : [];
+    const nowDown = new Set<string>();
+    this.stick.set(0, 0);
+    this.cameraStick = 0;
+
+    for (const pad of pads) {
+      if (!pad || !pad.connected) {
+        continue;
+      }
+      for (const [button, code] of PAD_BUTTON_CODES) {
+        if (pad.buttons[button]?.pressed) {
+          nowDown.add(code);
+        }
+      }
+
+      // With several pads connected, the stick pushed furthest wins.
+      const stick = readStick(pad);
+      if (stick.lengthSq() > this.stick.lengthSq()) {
+        this.stick.copy(stick);
+      }
+      const cameraStick = readAxis(pad, CAMERA_AXIS_X);
+      if (Math.abs(cameraStick) > Math.abs(this.cameraStick)) {
+        this.cameraStick = cameraStick;
+      }
+    }
+
+    this.addStickCodes(nowDown);
+    if (nowDown.size > 0 || this.stick.lengthSq() > 0 || this.cameraStick !== 0) {
+      this.lastDevice = "gamepad";
+    }
+
+    for (const code of this.padDown) {
+      if (!nowDown.has(code)) {
+        this.down.delete(code);
+      }
+    }
+    for (const code of nowDown) {
+      if (!this.padDown.has(code)) {
+        if (this.captureCallback) {
+          this.finishCapture(code);
+        } else {
+          this.pressed.add(code);
+        }
+      }
+      this.down.add(code);
+    }
+    this.padDown = nowDown;
+  }
+
+  private addStickCodes(nowDown: Set<string>): void {
+    const directions: Array<[string, number]> = [
+      ["PadStickUp", this.stick.y],
+      ["PadStickDown", -this.stick.y],
+      ["PadStickLeft", -this.stick.x],
+      ["PadStickRight", this.stick.x]
+    ];
+    for (const [code, amount] of directions) {
+      const threshold = this.padDown.has(code) ? STICK_RELEASE_THRESHOLD : STICK_PRESS_THRESHOLD;
+      if (amount > threshold) {
+        nowDown.add(code);
+      }
+    }
+  }
+
+  private releaseGamepad(): void {
+    for (const code of this.padDown) {
+      this.down.delete(code);
+    }
+    this.padDown = new Set<string>();
+    this.stick.set(0, 0);
+    this.cameraStick = 0;
+  }
+
+  private onGamepadConnected = (event: GamepadEvent): void => {
+    this.connectedPads.set(event.gamepad.index, event.gamepad.id);
+    this.lastDevice = "gamepad";
+  };
+
+  private onGamepadDisconnected = (event: GamepadEvent): void => {
+    this.connectedPads.delete(event.gamepad.index);
+    // Buttons held on an unplugged pad would otherwise stay down until the next poll sees no pads.
+    this.releaseGamepad();
+    if (this.connectedPads.size === 0) {
+      this.lastDevice = "keyboard";
+    }
+  };
+
   private onKeyDown = (event: KeyboardEvent): void => {
-    if (MOVE_KEYS.includes(event.code) || event.code === "Space") {
+    if (this.captureCallback) {
+      event.preventDefault();
+      if (!event.repeat) {
+        this.finishCapture(event.code === "Escape" ? null : event.code);
+      }
+      return;
+    }
+
+    // Escape stays with the browser so it can still leave fullscreen.
+    if (this.boundKeys.has(event.code) && event.code !== "Escape") {
       event.preventDefault();
     }
 
@@ -91,6 +375,7 @@ export class Input {
       this.pressed.add(event.code);
     }
     this.down.add(event.code);
+    this.lastDevice = "keyboard";
 
     this.notifyGesture();
   };
@@ -99,8 +384,62 @@ export class Input {
     this.down.delete(event.code);
   };
 
-  private onPointerDown = (): void => {
-    this.pointerPressed = true;
+  private onPointerDown = (event: PointerEvent): void => {
+    // Any finger that reaches the window (on-screen controls stop theirs) can drag the camera.
+    if (this.dragPointer === null) {
+      this.dragPointer = event.pointerId;
+      this.dragX = event.clientX;
+    }
+
+    if (!event.isPrimary) {
+      return;
+    }
+    if (this.captureCallback) {
+      this.finishCapture(POINTER_BINDING);
+      return;
+    }
+
+    this.pressed.add(POINTER_BINDING);
+    this.down.add(POINTER_BINDING);
+    this.lastDevice = event.pointerType === "touch" ? "touch" : "pointer";
     this.notifyGesture();
   };
+
+  private onPointerMove = (event: PointerEvent): void => {
+    if (event.pointerId === this.dragPointer) {
+      this.dragDeltaX += event.clientX - this.dragX;
+      this.dragX = event.clientX;
+    }
+  };
+
+  private onPointerUp = (event: PointerEvent): void => {
+    if (event.pointerId === this.dragPointer) {
+      this.dragPointer = null;
+    }
+    if (event.isPrimary) {
+      this.down.delete(POINTER_BINDING);
+    }
+  };
+}
+
+function readStick(pad: Gamepad): Vector2 {
+  const stick = new Vector2(pad.axes[STICK_AXIS_X] ?? 0, -(pad.axes[STICK_AXIS_Y] ?? 0));
+  return applyDeadzone(stick, STICK_DEADZONE);
+}
+
+function readAxis(pad: Gamepad, axis: number): number {
+  const value = pad.axes[axis] ?? 0;
+  const magnitude = Math.min(1, Math.abs(value));
+  if (magnitude <= STICK_DEADZONE) {
+    return 0;
+  }
+  return (Math.sign(value) * (magnitude - STICK_DEADZONE)) / (1 - STICK_DEADZONE);
+}
+
+function applyDeadzone(stick: Vector2, deadzone: number): Vector2 {
+  const magnitude = Math.min(1, stick.length());
+  if (magnitude <= deadzone) {
+    return stick.set(0, 0);
+  }
+  return stick.setLength((magnitude - deadzone) / (1 - deadzone));
 }
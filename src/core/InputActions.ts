@@ -0,0 +1,214 @@
+export type InputAction =
+  | "moveUp"
+  | "moveDown"
+  | "moveLeft"
+  | "moveRight"
+  | "cameraLeft"
+  | "cameraRight"
+  | "interact"
+  | "dance1"
+  | "dance2"
+  | "dance3"
+  | "advance"
+  | "skip"
+  | "pause"
+  | "inventory"
+  | "menuUp"
+  | "menuDown"
+  | "menuConfirm";
+
+// A binding is an input code: KeyboardEvent.code for keys, "Pointer" for the primary
+// pointer, "Pad*" pseudo codes for gamepad buttons and left stick directions and
+// "Touch*" for the on-screen touch buttons.
+export type InputBinding = string;
+
+export type InputBindings = Record<InputAction, InputBinding[]>;
+
+export type BindingDevice = "keyboard" | "pointer" | "gamepad" | "touch";
+
+export const POINTER_BINDING = "Pointer";
+export const TOUCH_BUTTON_A = "TouchA";
+export const TOUCH_BUTTON_PAUSE = "TouchPause";
+export const TOUCH_BUTTON_BAG = "TouchBag";
+export const TOUCH_BUTTON_DANCE = "TouchDance";
+
+export const INPUT_ACTIONS: InputAction[] = [
+  "moveUp",
+  "moveDown",
+  "moveLeft",
+  "moveRight",
+  "cameraLeft",
+  "cameraRight",
+  "interact",
+  "dance1",
+  "dance2",
+  "dance3",
+  "advance",
+  "skip",
+  "pause",
+  "inventory",
+  "menuUp",
+  "menuDown",
+  "menuConfirm"
+];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  moveUp: "Move forward",
+  moveDown: "Move back",
+  moveLeft: "Move left",
+  moveRight: "Move right",
+  cameraLeft: "Camera left",
+  cameraRight: "Camera right",
+  interact: "Interact",
+  dance1: "Dance move 1",
+  dance2: "Dance move 2",
+  dance3: "Dance move 3",
+  advance: "Advance dialogue",
+  skip: "Skip cutscene",
+  pause: "Pause",
+  inventory: "Inventory",
+  menuUp: "Menu up",
+  menuDown: "Menu down",
+  menuConfirm: "Menu confirm"
+};
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  moveUp: ["KeyW", "ArrowUp", "PadUp"],
+  moveDown: ["KeyS", "ArrowDown", "PadDown"],
+  moveLeft: ["KeyA", "ArrowLeft", "PadLeft"],
+  moveRight: ["KeyD", "ArrowRight", "PadRight"],
+  cameraLeft: ["KeyZ", "PadLB"],
+  cameraRight: ["KeyC", "PadRB"],
+  interact: ["KeyE", "PadA", TOUCH_BUTTON_A],
+  dance1: ["KeyJ", "PadX", TOUCH_BUTTON_DANCE],
+  dance2: ["KeyK", "PadY"],
+  dance3: ["KeyL", "PadB"],
+  advance: ["Space", "Enter", POINTER_BINDING, "PadA", TOUCH_BUTTON_A],
+  skip: ["Space", "Enter", POINTER_BINDING, "PadA", TOUCH_BUTTON_A],
+  pause: ["Escape", "PadStart", TOUCH_BUTTON_PAUSE],
+  inventory: ["KeyI", "PadSelect", TOUCH_BUTTON_BAG],
+  menuUp: ["ArrowUp", "KeyW", "PadUp", "PadStickUp"],
+  menuDown: ["ArrowDown", "KeyS", "PadDown", "PadStickDown"],
+  menuConfirm: ["Enter", "Space", "PadA"]
+};
+
+// Actions are only read in one context at a time, so a binding may be shared across
+// contexts (E interacts while walking, W moves the menu cursor) but not inside one.
+// Pause is read in every context.
+const ACTION_CONTEXTS: Record<InputAction, string[]> = {
+  moveUp: ["walk"],
+  moveDown: ["walk"],
+  moveLeft: ["walk"],
+  moveRight: ["walk"],
+  cameraLeft: ["walk"],
+  cameraRight: ["walk"],
+  interact: ["walk"],
+  dance1: ["walk"],
+  dance2: ["walk"],
+  dance3: ["walk"],
+  advance: ["dialogue"],
+  skip: ["cutscene"],
+  pause: ["walk", "dialogue", "cutscene", "menu"],
+  inventory: ["walk"],
+  menuUp: ["menu"],
+  menuDown: ["menu"],
+  menuConfirm: ["menu"]
+};
+
+export function cloneBindings(bindings: InputBindings): InputBindings {
+  const clone = {} as InputBindings;
+  for (const action of INPUT_ACTIONS) {
+    clone[action] = [...bindings[action]];
+  }
+  return clone;
+}
+
+export function isInputAction(value: unknown): value is InputAction {
+  return typeof value === "string" && value in ACTION_LABELS;
+}
+
+export function getBindingDevice(binding: InputBinding): BindingDevice {
+  if (binding === POINTER_BINDING) {
+    return "pointer";
+  }
+  if (binding.startsWith("Touch")) {
+    return "touch";
+  }
+  return binding.startsWith("Pad") ? "gamepad" : "keyboard";
+}
+
+// Every other action that shares a context with `action` and is bound to `binding`.
+export function findBindingConflicts(
+  bindings: InputBindings,
+  action: InputAction,
+  binding: InputBinding
+): InputAction[] {
+  const contexts = ACTION_CONTEXTS[action];
+  return INPUT_ACTIONS.filter(
+    (other) =>
+      other !== action &&
+      bindings[other].includes(binding) &&
+      ACTION_CONTEXTS[other].some((context) => contexts.includes(context))
+  );
+}
+
+export function hasBindingConflicts(bindings: InputBindings, action: InputAction): boolean {
+  return bindings[action].some((binding) => findBindingConflicts(bindings, action, binding).length > 0);
+}
+
+const NAMED_BINDINGS: Record<string, string> = {
+  [POINTER_BINDING]: "Click",
+  [TOUCH_BUTTON_A]: "Tap A",
+  [TOUCH_BUTTON_PAUSE]: "Tap II",
+  [TOUCH_BUTTON_BAG]: "Tap Bag",
+  [TOUCH_BUTTON_DANCE]: "Tap Dance",
+  Space: "Space",
+  Enter: "Enter",
+  Escape: "Esc",
+  ArrowUp: "Up",
+  ArrowDown: "Down",
+  ArrowLeft: "Left",
+  ArrowRight: "Right",
+  ShiftLeft: "Shift",
+  ShiftRight: "R-Shift",
+  ControlLeft: "Ctrl",
+  ControlRight: "R-Ctrl",
+  AltLeft: "Alt",
+  AltRight: "R-Alt",
+  PadStart: "Pad Start",
+  PadSelect: "Pad Select",
+  PadLB: "Pad LB",
+  PadRB: "Pad RB",
+  PadUp: "Pad Up",
+  PadDown: "Pad Down",
+  PadLeft: "Pad Left",
+  PadRight: "Pad Right",
+  PadStickUp: "Stick Up",
+  PadStickDown: "Stick Down",
+  PadStickLeft: "Stick Left",
+  PadStickRight: "Stick Right"
+};
+
+// Human readable name; `layout` maps physical codes to the user's keyboard layout (e.g. AZERTY).
+export function formatBinding(binding: InputBinding, layout?: ReadonlyMap<string, string>): string {
+  const named = NAMED_BINDINGS[binding];
+  if (named) {
+    return named;
+  }
+
+  const mapped = layout?.get(binding);
+  if (mapped && mapped.trim()) {
+    return mapped.toUpperCase();
+  }
+
+  if (binding.startsWith("Pad")) {
+    return `Pad ${binding.slice(3)}`;
+  }
+  if (binding.startsWith("Key")) {
+    return binding.slice(3);
+  }
+  if (binding.startsWith("Digit")) {
+    return binding.slice(5);
+  }
+  return binding;
+}
@@ -0,0 +1,75 @@
+import type { GameFlags } from "./GameFlags";
+
+export interface ItemDefinition {
+  name: string;
+  description: string;
+  // Pickup glow and the swatch in the inventory overlay.
+  color: string;
+}
+
+// Everything the kitty can carry; level pickups and dialogue actions name these ids.
+export const ITEMS: Record<string, ItemDefinition> = {
+  gift: { name: "Gift", description: "A wrapped present for Masha.", color: "#ff7eb6" },
+  balloon: { name: "Balloon", description: "Party decoration. Floats a little.", color: "#7ec8ff" },
+  strawberry: { name: "Strawberry", description: "Fresh from Klim Sanych's garden. Cake topping.", color: "#ff5a5a" }
+};
+
+export interface InventoryEntry {
+  item: string;
+  name: string;
+  description: string;
+  color: string;
+  count: number;
+}
+
+const ITEM_FLAG_PREFIX = "item_";
+
+// Counts live in the flags (and so in saves): `item_<id>` is how many the kitty carries,
+// which lets dialogue and quest conditions check them like any other flag.
+export function getItemFlag(item: string): string {
+  return `${ITEM_FLAG_PREFIX}${item}`;
+}
+
+export class Inventory {
+  private readonly flags: GameFlags;
+
+  constructor(flags: GameFlags) {
+    this.flags = flags;
+  }
+
+  count(item: string): number {
+    return this.flags.getNumber(getItemFlag(item));
+  }
+
+  add(item: string, amount = 1): number {
+    return this.flags.add(getItemFlag(item), amount);
+  }
+
+  // False (and nothing taken) when there are fewer than `amount`.
+  remove(item: string, amount = 1): boolean {
+    if (this.count(item) < amount) {
+      return false;
+    }
+    this.flags.add(getItemFlag(item), -amount);
+    return true;
+  }
+
+  // Carried items, known ones in ITEMS order first.
+  getEntries(): InventoryEntry[] {
+    const known = Object.keys(ITEMS);
+    const carried = Object.keys(this.flags.snapshot())
+      .filter((flag) => flag.startsWith(ITEM_FLAG_PREFIX))
+      .map((flag) => flag.slice(ITEM_FLAG_PREFIX.length))
+      .filter((item) => this.count(item) > 0);
+    const rank = (item: string): number => (known.includes(item) ? known.indexOf(item) : known.length);
+
+    return carried
+      .sort((a, b) => rank(a) - rank(b))
+      .map((item) => ({ item, ...getItemDefinition(item), count: this.count(item) }));
+  }
+}
+
+// Unknown ids still show up, under their raw name.
+export function getItemDefinition(item: string): ItemDefinition {
+  return ITEMS[item] ?? { name: item, description: "", color: "#f2f2f2" };
+}
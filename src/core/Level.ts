@@ -0,0 +1,275 @@
+import type { Collider } from "../utils/Collision";
+import { DialogueAction, DialogueCondition, isDialogueAction, isDialogueConditionList } from "./Dialogue";
+import type { HillSpec } from "../utils/Terrain";
+
+export interface LevelPosition {
+  x: number;
+  // Omitted: the entity is set on the ground at (x, z).
+  y?: number;
+  z: number;
+}
+
+export interface LevelPoint {
+  x: number;
+  z: number;
+}
+
+// What a character does on its own. Every kind stops and turns to the player within `lookAtPlayer`
+// (default 4, 0 to never); "patrol" walks its waypoints back and forth (the road when omitted).
+export type LevelBehavior =
+  | { kind: "idle"; lookAtPlayer?: number }
+  | { kind: "wander"; radius?: number; speed?: number; pause?: number; lookAtPlayer?: number }
+  | { kind: "patrol"; waypoints?: LevelPoint[]; speed?: number; pause?: number; lookAtPlayer?: number };
+
+export interface LevelScale {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface LevelEntity {
+  id: string;
+  model: string;
+  // Named placeholder built when the model is missing (see WorldScene's placeholder table).
+  placeholder?: string;
+  position: LevelPosition;
+  rotY?: number;
+  scale?: number | LevelScale;
+  // "ground": baked into the walkable heightfield. "npc": a character (not a prop).
+  tags?: string[];
+  collider?: Collider["kind"];
+  // Dialogue graph started by talking to this entity; entities without one can't be interacted with.
+  dialogue?: string;
+  // How close the player has to be to talk (default 2.1) and the verb in the prompt (default "talk").
+  interactRadius?: number;
+  prompt?: string;
+  behavior?: LevelBehavior;
+  // A pickup: touching it adds one of this item (see ITEMS in Inventory.ts) and it disappears for good.
+  item?: string;
+}
+
+// Spawn points and road / river tiles: a spot on the ground facing `rotY`.
+export interface LevelTile {
+  x: number;
+  z: number;
+  rotY: number;
+}
+
+export interface LevelLimits {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export interface LevelTerrain {
+  // Walkable area; the player is clamped to it and the ground is baked around it.
+  limits: LevelLimits;
+  hills: HillSpec[];
+  road: LevelTile[];
+  river: LevelTile[];
+}
+
+export interface LevelVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// What a trigger does: dialogue actions (flags, items, transitions) plus scene-level ones.
+export type LevelScriptAction =
+  | DialogueAction
+  | { type: "hint"; text: string }
+  | { type: "hideHint" }
+  // Plays the dialogue file as if the kitty had started a conversation.
+  | { type: "dialogue"; dialogue: string }
+  | { type: "sound"; sound: string; volume?: number }
+  // Holds the camera on a shot for `seconds` (the kitty waits), then eases back.
+  | { type: "camera"; position: LevelVector; lookAt: LevelVector; seconds?: number }
+  // Plays a cutscene file (see Cutscene.ts); the kitty waits until it ends or is skipped.
+  | { type: "cutscene"; cutscene: string };
+
+// Level-only script action types and the string fields each one needs; the rest are dialogue actions.
+const SCRIPT_ACTIONS: Record<string, string[]> = {
+  hint: ["text"],
+  hideHint: [],
+  dialogue: ["dialogue"],
+  sound: ["sound"],
+  camera: [],
+  cutscene: ["cutscene"]
+};
+
+// Named area for scripted events, shaped like a collider on the ground plane.
+export interface LevelTrigger {
+  id: string;
+  area: Collider;
+  tags?: string[];
+  // The trigger only fires while these hold (checked on entering).
+  conditions?: DialogueCondition[];
+  // Fires a single time per save.
+  once?: boolean;
+  onEnter?: LevelScriptAction[];
+  // After `stayDelay` seconds inside (1.5 by default), once per visit.
+  onStay?: LevelScriptAction[];
+  stayDelay?: number;
+  onExit?: LevelScriptAction[];
+}
+
+export interface LevelData {
+  id: string;
+  terrain: LevelTerrain;
+  // "player" is required; other names are free for scripts.
+  spawns: Record<string, LevelTile>;
+  entities: LevelEntity[];
+  triggers: LevelTrigger[];
+}
+
+export function parseLevel(data: unknown): LevelData {
+  if (!data || typeof data !== "object") {
+    throw new Error("Level must be an object");
+  }
+
+  const level = data as Partial<LevelData>;
+  if (typeof level.id !== "string") {
+    throw new Error("Level is missing 'id'");
+  }
+  const id = level.id;
+
+  const terrain = level.terrain;
+  if (!terrain || typeof terrain !== "object") {
+    fail(id, "missing 'terrain'");
+  }
+  if (!terrain.limits || !areNumbers(terrain.limits, ["minX", "maxX", "minZ", "maxZ"])) {
+    fail(id, "'terrain.limits' needs numeric minX / maxX / minZ / maxZ");
+  }
+  (terrain.hills ?? []).forEach((hill, index) => {
+    if (!areNumbers(hill, ["x", "z", "sx", "sy", "sz"])) {
+      fail(id, `hill ${index} needs numeric x / z / sx / sy / sz`);
+    }
+  });
+  for (const key of ["road", "river"] as const) {
+    (terrain[key] ?? []).forEach((tile, index) => {
+      if (!areNumbers(tile, ["x", "z", "rotY"])) {
+        fail(id, `${key} tile ${index} needs numeric x / z / rotY`);
+      }
+    });
+  }
+
+  const spawns = level.spawns ?? {};
+  for (const [name, spawn] of Object.entries(spawns)) {
+    if (!areNumbers(spawn, ["x", "z", "rotY"])) {
+      fail(id, `spawn '${name}' needs numeric x / z / rotY`);
+    }
+  }
+  if (!spawns.player) {
+    fail(id, "missing the 'player' spawn");
+  }
+
+  const ids = new Set<string>();
+  (level.entities ?? []).forEach((entity, index) => {
+    if (typeof entity?.id !== "string" || typeof entity.model !== "string") {
+      fail(id, `entity ${index} needs 'id' and 'model'`);
+    }
+    if (ids.has(entity.id)) {
+      fail(id, `duplicate entity id '${entity.id}'`);
+    }
+    ids.add(entity.id);
+    if (!entity.position || !areNumbers(entity.position, ["x", "z"])) {
+      fail(id, `entity '${entity.id}' needs a numeric position`);
+    }
+    if (entity.interactRadius !== undefined && !(typeof entity.interactRadius === "number" && entity.interactRadius > 0)) {
+      fail(id, `entity '${entity.id}' needs a positive 'interactRadius'`);
+    }
+    if (entity.item !== undefined && typeof entity.item !== "string") {
+      fail(id, `entity '${entity.id}' needs a string 'item'`);
+    }
+    if (entity.behavior !== undefined && !isBehavior(entity.behavior)) {
+      fail(id, `entity '${entity.id}' has an invalid 'behavior'`);
+    }
+    if (entity.collider !== undefined && entity.collider !== "box" && entity.collider !== "circle") {
+      fail(id, `entity '${entity.id}' has unknown collider '${String(entity.collider)}'`);
+    }
+  });
+
+  (level.triggers ?? []).forEach((trigger, index) => {
+    const area = trigger?.area;
+    const shaped =
+      area?.kind === "circle"
+        ? areNumbers(area, ["x", "z", "radius"])
+        : area?.kind === "box" && areNumbers(area, ["x", "z", "halfX", "halfZ", "rotY"]);
+    if (typeof trigger?.id !== "string" || !shaped) {
+      fail(id, `trigger ${index} needs 'id' and a circle or box 'area'`);
+    }
+    if (!isDialogueConditionList(trigger.conditions)) {
+      fail(id, `trigger '${trigger.id}' has invalid 'conditions'`);
+    }
+    for (const key of ["onEnter", "onStay", "onExit"] as const) {
+      const actions = trigger[key];
+      if (actions !== undefined && !(Array.isArray(actions) && actions.every(isScriptAction))) {
+        fail(id, `trigger '${trigger.id}' has an invalid '${key}' action list`);
+      }
+    }
+    if (trigger.stayDelay !== undefined && !(typeof trigger.stayDelay === "number" && trigger.stayDelay >= 0)) {
+      fail(id, `trigger '${trigger.id}' needs a non-negative 'stayDelay'`);
+    }
+  });
+
+  return {
+    id,
+    terrain: {
+      limits: terrain.limits,
+      hills: terrain.hills ?? [],
+      road: terrain.road ?? [],
+      river: terrain.river ?? []
+    },
+    spawns,
+    entities: level.entities ?? [],
+    triggers: level.triggers ?? []
+  };
+}
+
+function fail(id: string, message: string): never {
+  throw new Error(`Level '${id}': ${message}`);
+}
+
+function isBehavior(value: unknown): boolean {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const behavior = value as Record<string, unknown>;
+  const optionalNumbers = ["radius", "speed", "pause", "lookAtPlayer"].every(
+    (key) => behavior[key] === undefined || (typeof behavior[key] === "number" && (behavior[key] as number) >= 0)
+  );
+  const waypoints = behavior.waypoints;
+  const validWaypoints =
+    waypoints === undefined || (Array.isArray(waypoints) && waypoints.every((point) => areNumbers(point, ["x", "z"])));
+  return ["idle", "wander", "patrol"].includes(String(behavior.kind)) && optionalNumbers && validWaypoints;
+}
+
+function isScriptAction(value: unknown): boolean {
+  if (isDialogueAction(value)) {
+    return true;
+  }
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const action = value as Record<string, unknown>;
+  const strings = SCRIPT_ACTIONS[String(action.type)];
+  if (!Array.isArray(strings) || !strings.every((key) => typeof action[key] === "string" && action[key] !== "")) {
+    return false;
+  }
+  const optionalNumbers = ["volume", "seconds"].every((key) => action[key] === undefined || areNumbers(action, [key]));
+  if (action.type === "camera") {
+    const framed = areNumbers(action.position, ["x", "y", "z"]) && areNumbers(action.lookAt, ["x", "y", "z"]);
+    return optionalNumbers && framed;
+  }
+  return optionalNumbers;
+}
+
+function areNumbers(value: unknown, keys: string[]): boolean {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return keys.every((key) => typeof record[key] === "number" && Number.isFinite(record[key]));
+}
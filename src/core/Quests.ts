@@ -0,0 +1,195 @@
+import {
+  areDialogueConditionsMet,
+  DialogueAction,
+  DialogueCondition,
+  isDialogueActionList,
+  isDialogueConditionList,
+  runDialogueActions
+} from "./Dialogue";
+import type { GameFlags } from "./GameFlags";
+
+export interface QuestStep {
+  id: string;
+  text: string;
+  // The step is done once all of these hold; a single `min` condition is shown as a counter.
+  complete: DialogueCondition[];
+  actions?: DialogueAction[];
+}
+
+export interface QuestDefinition {
+  id: string;
+  title: string;
+  // The quest starts once these hold (right away when omitted).
+  start?: DialogueCondition[];
+  steps: QuestStep[];
+  // Run when the last step is done.
+  actions?: DialogueAction[];
+}
+
+export interface QuestLogEntry {
+  id: string;
+  title: string;
+  // Current objective; null once the quest is done.
+  objective: string | null;
+  done: boolean;
+}
+
+export type QuestEvent =
+  | { type: "started"; quest: QuestDefinition }
+  // A step other than the last one was finished; the last one completes the quest instead.
+  | { type: "step"; quest: QuestDefinition; step: QuestStep }
+  | { type: "completed"; quest: QuestDefinition };
+
+type QuestListener = (event: QuestEvent) => void;
+
+// Progress lives in the flags (and so in saves): `quest_<id>` counts the finished steps.
+export function getQuestFlag(questId: string): string {
+  return `quest_${questId}`;
+}
+
+export function parseQuests(data: unknown): QuestDefinition[] {
+  if (!data || typeof data !== "object" || !Array.isArray((data as { quests?: unknown }).quests)) {
+    throw new Error("Quest file needs a 'quests' list");
+  }
+
+  const quests = (data as { quests: Partial<QuestDefinition>[] }).quests;
+  const ids = new Set<string>();
+  quests.forEach((quest, index) => {
+    if (typeof quest?.id !== "string" || typeof quest.title !== "string") {
+      throw new Error(`Quest ${index} needs 'id' and 'title'`);
+    }
+    if (ids.has(quest.id)) {
+      throw new Error(`Duplicate quest id '${quest.id}'`);
+    }
+    ids.add(quest.id);
+    if (!isDialogueConditionList(quest.start) || !isDialogueActionList(quest.actions)) {
+      throw new Error(`Quest '${quest.id}' has invalid 'start' conditions or 'actions'`);
+    }
+    if (!Array.isArray(quest.steps) || quest.steps.length === 0) {
+      throw new Error(`Quest '${quest.id}' needs at least one step`);
+    }
+    quest.steps.forEach((step, stepIndex) => {
+      if (typeof step?.id !== "string" || typeof step.text !== "string" || !Array.isArray(step.complete)) {
+        throw new Error(`Quest '${quest.id}': step ${stepIndex} needs 'id', 'text' and 'complete' conditions`);
+      }
+      if (!isDialogueConditionList(step.complete) || !isDialogueActionList(step.actions)) {
+        throw new Error(`Quest '${quest.id}': step '${step.id}' has invalid 'complete' conditions or 'actions'`);
+      }
+    });
+  });
+
+  return quests as QuestDefinition[];
+}
+
+// Starts quests and advances their steps as flags change. Checks run in `update`, so a burst of
+// flag writes (a dialogue node, a save being restored) settles before anything is announced.
+export class QuestLog {
+  private readonly flags: GameFlags;
+  private readonly onAction: (action: DialogueAction) => void;
+  private readonly listeners = new Set<QuestListener>();
+  private definitions: QuestDefinition[] = [];
+  private dirty = true;
+
+  // `onAction` receives quest actions other than flag writes (e.g. transitions).
+  constructor(flags: GameFlags, onAction: (action: DialogueAction) => void) {
+    this.flags = flags;
+    this.onAction = onAction;
+    this.flags.onChange(() => {
+      this.dirty = true;
+    });
+  }
+
+  setDefinitions(definitions: QuestDefinition[]): void {
+    this.definitions = definitions;
+    this.dirty = true;
+  }
+
+  // Started quests in definition order, unfinished ones first.
+  getEntries(): QuestLogEntry[] {
+    const entries: QuestLogEntry[] = [];
+    for (const quest of this.definitions) {
+      const progress = this.getProgress(quest);
+      if (progress === null) {
+        continue;
+      }
+      const step = quest.steps[progress];
+      entries.push({
+        id: quest.id,
+        title: quest.title,
+        objective: step ? this.describeStep(step) : null,
+        done: !step
+      });
+    }
+    return entries.sort((a, b) => Number(a.done) - Number(b.done));
+  }
+
+  onEvent(listener: QuestListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // True when any flag changed since the last call, i.e. the log may read differently.
+  update(): boolean {
+    const changed = this.dirty;
+    // Finishing a step can set flags that finish the next one, so settle in a loop.
+    while (this.dirty) {
+      this.dirty = false;
+      for (const quest of this.definitions) {
+        this.advance(quest);
+      }
+    }
+    return changed;
+  }
+
+  private advance(quest: QuestDefinition): void {
+    const flag = getQuestFlag(quest.id);
+    let progress = this.getProgress(quest);
+    if (progress === null) {
+      if (!areDialogueConditionsMet(this.flags, quest.start)) {
+        return;
+      }
+      progress = 0;
+      this.flags.set(flag, 0);
+      this.emit({ type: "started", quest });
+    }
+
+    while (progress < quest.steps.length && areDialogueConditionsMet(this.flags, quest.steps[progress].complete)) {
+      const step = quest.steps[progress];
+      progress += 1;
+      this.flags.set(flag, progress);
+      this.run(step.actions);
+      if (progress < quest.steps.length) {
+        this.emit({ type: "step", quest, step });
+      } else {
+        this.run(quest.actions);
+        this.emit({ type: "completed", quest });
+      }
+    }
+  }
+
+  private getProgress(quest: QuestDefinition): number | null {
+    const flag = getQuestFlag(quest.id);
+    return this.flags.has(flag) ? Math.min(this.flags.getNumber(flag), quest.steps.length) : null;
+  }
+
+  private describeStep(step: QuestStep): string {
+    const [condition, ...rest] = step.complete;
+    if (condition?.min === undefined || rest.length > 0) {
+      return step.text;
+    }
+    const count = Math.min(this.flags.getNumber(condition.flag), condition.min);
+    return `${step.text} (${count}/${condition.min})`;
+  }
+
+  private run(actions: DialogueAction[] | undefined): void {
+    runDialogueActions({ flags: this.flags, onAction: this.onAction }, actions);
+  }
+
+  private emit(event: QuestEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import type { FlagValue } from "./GameFlags";
+
+export const SAVE_VERSION = 1;
+export const AUTOSAVE_SLOT = "auto";
+
+export interface SaveData {
+  version: number;
+  slot: string;
+  savedAt: number;
+  currentState: string | null;
+  audioUnlocked: boolean;
+  flags: Record<string, FlagValue>;
+  states: Record<string, unknown>;
+}
+
+export type SaveContents = Omit<SaveData, "version" | "slot" | "savedAt">;
+
+export interface SaveSlotInfo {
+  slot: string;
+  savedAt: number;
+  currentState: string | null;
+}
+
+type RawSave = Record<string, unknown> & { version?: number };
+
+// Each entry upgrades a save from version `key` to `key + 1`.
+// Bump SAVE_VERSION and add a step here whenever SaveData changes shape.
+const MIGRATIONS: Record<number, (data: RawSave) => RawSave> = {};
+
+const KEY_PREFIX = "masha-game.save.";
+
+export class SaveSystem {
+  private readonly storage: Storage | null;
+
+  constructor(storage: Storage | null = SaveSystem.getDefaultStorage()) {
+    this.storage = storage;
+  }
+
+  listSlots(): SaveSlotInfo[] {
+    if (!this.storage) {
+      return [];
+    }
+
+    const slots: SaveSlotInfo[] = [];
+    for (let i = 0; i < this.storage.length; i += 1) {
+      const key = this.storage.key(i);
+      if (!key?.startsWith(KEY_PREFIX)) {
+        continue;
+      }
+
+      const data = this.load(key.slice(KEY_PREFIX.length));
+      if (data) {
+        slots.push({ slot: data.slot, savedAt: data.savedAt, currentState: data.currentState });
+      }
+    }
+
+    return slots.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  getLatestSlot(): string | null {
+    return this.listSlots()[0]?.slot ?? null;
+  }
+
+  load(slot: string): SaveData | null {
+    const raw = this.read(slot);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as RawSave;
+      return this.validate(this.migrate(parsed), slot);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(`[SaveSystem] Slot '${slot}' is unreadable and was ignored.`, error);
+      return null;
+    }
+  }
+
+  save(slot: string, contents: SaveContents): boolean {
+    const data: SaveData = {
+      version: SAVE_VERSION,
+      slot,
+      savedAt: Date.now(),
+      ...contents
+    };
+
+    try {
+      this.storage?.setItem(KEY_PREFIX + slot, JSON.stringify(data));
+      return this.storage !== null;
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(`[SaveSystem] Could not write slot '${slot}'.`, error);
+      return false;
+    }
+  }
+
+  delete(slot: string): void {
+    try {
+      this.storage?.removeItem(KEY_PREFIX + slot);
+    } catch {
+      // Nothing to clean up if storage is unavailable.
+    }
+  }
+
+  private read(slot: string): string | null {
+    try {
+      return this.storage?.getItem(KEY_PREFIX + slot) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private migrate(data: RawSave): RawSave {
+    let current = data;
+    let version = Number(current.version ?? 0);
+
+    if (version > SAVE_VERSION) {
+      throw new Error(`Save version ${version} is newer than supported ${SAVE_VERSION}`);
+    }
+
+    while (version < SAVE_VERSION) {
+      const step = MIGRATIONS[version];
+      if (!step) {
+        throw new Error(`No migration from save version ${version}`);
+      }
+      current = { ...step(current), version: version + 1 };
+      version += 1;
+    }
+
+    return current;
+  }
+
+  private validate(data: RawSave, slot: string): SaveData {
+    if (typeof data.savedAt !== "number" || typeof data.flags !== "object" || typeof data.states !== "object") {
+      throw new Error("Save is missing required fields");
+    }
+
+    return {
+      version: SAVE_VERSION,
+      slot,
+      savedAt: data.savedAt,
+      currentState: typeof data.currentState === "string" ? data.currentState : null,
+      audioUnlocked: Boolean(data.audioUnlocked),
+      flags: (data.flags ?? {}) as Record<string, FlagValue>,
+      states: (data.states ?? {}) as Record<string, unknown>
+    };
+  }
+
+  private static getDefaultStorage(): Storage | null {
+    try {
+      return window.localStorage;
+    } catch {
+      return null;
+    }
+  }
+}
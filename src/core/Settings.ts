@@ -0,0 +1,198 @@
+import type { PS1RendererOptions } from "../render/PS1Renderer";
+import { DEFAULT_BINDINGS, INPUT_ACTIONS, cloneBindings, type InputBindings } from "./InputActions";
+
+export interface VolumeSettings {
+  master: number;
+  music: number;
+  sfx: number;
+}
+
+// "tank": left/right turn the kitty, forward/back walk along its nose.
+// "camera": directions are relative to the screen and the camera can be orbited by hand.
+export type MovementScheme = "tank" | "camera";
+
+// "classic": the hand-made village. "random": New Game generates a fresh village from a new seed.
+export type VillageMode = "classic" | "random";
+
+export interface GameSettings {
+  renderer: PS1RendererOptions;
+  volume: VolumeSettings;
+  fullscreen: boolean;
+  movementScheme: MovementScheme;
+  // Lean the kitty with the ground under it.
+  tiltToGround: boolean;
+  village: VillageMode;
+  bindings: InputBindings;
+}
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  renderer: {
+    pixelScale: 3,
+    enableDither: true,
+    enableUvWobble: true,
+    colorLevels: 48
+  },
+  volume: {
+    master: 1,
+    music: 1,
+    sfx: 1
+  },
+  fullscreen: false,
+  movementScheme: "tank",
+  tiltToGround: true,
+  village: "classic",
+  bindings: DEFAULT_BINDINGS
+};
+
+type SettingsListener = (settings: GameSettings) => void;
+
+const STORAGE_KEY = "masha-game.settings";
+
+function cloneSettings(settings: GameSettings): GameSettings {
+  return {
+    renderer: { ...settings.renderer },
+    volume: { ...settings.volume },
+    fullscreen: settings.fullscreen,
+    movementScheme: settings.movementScheme,
+    tiltToGround: settings.tiltToGround,
+    village: settings.village,
+    bindings: cloneBindings(settings.bindings)
+  };
+}
+
+function sanitizeBindings(value: unknown): InputBindings {
+  const stored = (typeof value === "object" && value !== null ? value : {}) as Record<string, unknown>;
+  const bindings = cloneBindings(DEFAULT_BINDINGS);
+  for (const action of INPUT_ACTIONS) {
+    const list = stored[action];
+    if (Array.isArray(list)) {
+      bindings[action] = [...new Set(list.filter((code): code is string => typeof code === "string" && code.length > 0))];
+    }
+  }
+  return bindings;
+}
+
+function clamp01(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+}
+
+export class Settings {
+  private readonly storage: Storage | null;
+  private readonly listeners = new Set<SettingsListener>();
+  private current: GameSettings;
+
+  constructor(storage: Storage | null = Settings.getDefaultStorage()) {
+    this.storage = storage;
+    this.current = this.load();
+  }
+
+  get values(): GameSettings {
+    return cloneSettings(this.current);
+  }
+
+  update(patch: {
+    renderer?: Partial<PS1RendererOptions>;
+    volume?: Partial<VolumeSettings>;
+    fullscreen?: boolean;
+    movementScheme?: MovementScheme;
+    tiltToGround?: boolean;
+    village?: VillageMode;
+    bindings?: Partial<InputBindings>;
+  }): void {
+    this.current = this.sanitize({
+      renderer: { ...this.current.renderer, ...patch.renderer },
+      volume: { ...this.current.volume, ...patch.volume },
+      fullscreen: patch.fullscreen ?? this.current.fullscreen,
+      movementScheme: patch.movementScheme ?? this.current.movementScheme,
+      tiltToGround: patch.tiltToGround ?? this.current.tiltToGround,
+      village: patch.village ?? this.current.village,
+      bindings: { ...this.current.bindings, ...patch.bindings }
+    });
+    this.persist();
+    this.notify();
+  }
+
+  reset(): void {
+    this.current = cloneSettings(DEFAULT_SETTINGS);
+    this.persist();
+    this.notify();
+  }
+
+  onChange(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): GameSettings {
+    try {
+      const raw = this.storage?.getItem(STORAGE_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw) as Partial<GameSettings>;
+        return this.sanitize({
+          renderer: { ...DEFAULT_SETTINGS.renderer, ...parsed.renderer },
+          volume: { ...DEFAULT_SETTINGS.volume, ...parsed.volume },
+          fullscreen: parsed.fullscreen ?? DEFAULT_SETTINGS.fullscreen,
+          movementScheme: parsed.movementScheme ?? DEFAULT_SETTINGS.movementScheme,
+          tiltToGround: parsed.tiltToGround ?? DEFAULT_SETTINGS.tiltToGround,
+          village: parsed.village ?? DEFAULT_SETTINGS.village,
+          bindings: { ...DEFAULT_SETTINGS.bindings, ...parsed.bindings }
+        });
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn("[Settings] Stored settings are unreadable, using defaults.", error);
+    }
+    return cloneSettings(DEFAULT_SETTINGS);
+  }
+
+  private sanitize(settings: GameSettings): GameSettings {
+    const defaults = DEFAULT_SETTINGS;
+    const pixelScale = Number(settings.renderer.pixelScale);
+    const colorLevels = Number(settings.renderer.colorLevels);
+
+    return {
+      renderer: {
+        pixelScale: Number.isFinite(pixelScale) ? Math.min(8, Math.max(1, Math.round(pixelScale))) : defaults.renderer.pixelScale,
+        enableDither: Boolean(settings.renderer.enableDither),
+        enableUvWobble: Boolean(settings.renderer.enableUvWobble),
+        colorLevels: Number.isFinite(colorLevels) ? Math.min(256, Math.max(4, Math.round(colorLevels))) : defaults.renderer.colorLevels
+      },
+      volume: {
+        master: clamp01(settings.volume.master, defaults.volume.master),
+        music: clamp01(settings.volume.music, defaults.volume.music),
+        sfx: clamp01(settings.volume.sfx, defaults.volume.sfx)
+      },
+      fullscreen: Boolean(settings.fullscreen),
+      movementScheme: settings.movementScheme === "camera" ? "camera" : "tank",
+      tiltToGround: Boolean(settings.tiltToGround),
+      village: settings.village === "random" ? "random" : "classic",
+      bindings: sanitizeBindings(settings.bindings)
+    };
+  }
+
+  private persist(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.current));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn("[Settings] Could not persist settings.", error);
+    }
+  }
+
+  private notify(): void {
+    const snapshot = this.values;
+    for (const listener of this.listeners) {
+      listener(snapshot);
+    }
+  }
+
+  private static getDefaultStorage(): Storage | null {
+    try {
+      return window.localStorage;
+    } catch {
+      return null;
+    }
+  }
+}
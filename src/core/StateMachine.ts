@@ -1,49 +1,190 @@
 export interface IGameState {
   enter(): Promise<void> | void;
-  exit(): void;
+  exit(): Promise<void> | void;
   update(deltaSeconds: number): void;
   render(deltaSeconds: number): void;
   resize(width: number, height: number): void;
+  // Called when another state is pushed on top / when it is popped again.
+  pause?(): void;
+  resume?(): void;
+  // Returning false vetoes change()/pop() while this state is on the stack.
+  canExit?(): boolean;
+  // Optional persistence hooks used by the save system; data must be JSON-serializable.
+  serialize?(): unknown;
+  deserialize?(data: unknown): void;
 }
 
+export type StateLifecycleEvent = "enter" | "exit" | "pause" | "resume";
+
+export type StateLifecycleListener = (key: string, event: StateLifecycleEvent) => void;
+
+interface StackEntry {
+  key: string;
+  state: IGameState;
+}
+
+// States live on a stack: the bottom entry is the scene, entries above it are overlays
+// (pause menu, ...). Only the top state updates; every state in the stack renders, bottom first.
 export class StateMachine {
   private states = new Map<string, IGameState>();
-  private currentKey: string | null = null;
-  private currentState: IGameState | null = null;
+  private readonly stack: StackEntry[] = [];
+  private readonly listeners = new Set<StateLifecycleListener>();
+  // Transitions are serialized so an async exit()/enter() never interleaves with the next one.
+  private queue: Promise<unknown> = Promise.resolve();
 
   register(key: string, state: IGameState): void {
     this.states.set(key, state);
   }
 
-  async change(key: string): Promise<void> {
-    if (this.currentKey === key) {
-      return;
-    }
+  has(key: string): boolean {
+    return this.states.has(key);
+  }
 
-    const next = this.states.get(key);
-    if (!next) {
-      throw new Error(`State '${key}' is not registered`);
-    }
+  on(listener: StateLifecycleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Replaces the whole stack. Resolves false when a guard vetoed it or the state is already active.
+  change(key: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      if (this.stack.length === 1 && this.stack[0].key === key) {
+        return false;
+      }
+
+      const next = this.getState(key);
+      if (!this.canExitEntries(this.stack)) {
+        return false;
+      }
+
+      while (this.stack.length > 0) {
+        await this.exitEntry(this.stack.pop()!);
+      }
 
-    this.currentState?.exit();
-    this.currentState = next;
-    this.currentKey = key;
-    await next.enter();
+      this.stack.push({ key, state: next });
+      await this.enterEntry(this.stack[0]);
+      return true;
+    });
+  }
+
+  push(key: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      if (this.stack.some((entry) => entry.key === key)) {
+        throw new Error(`State '${key}' is already on the stack`);
+      }
+
+      const next = this.getState(key);
+      const below = this.top;
+      if (below) {
+        below.state.pause?.();
+        this.emit(below.key, "pause");
+      }
+
+      const entry = { key, state: next };
+      this.stack.push(entry);
+      await this.enterEntry(entry);
+      return true;
+    });
+  }
+
+  pop(): Promise<boolean> {
+    return this.enqueue(async () => {
+      const entry = this.top;
+      if (!entry || this.stack.length <= 1 || !this.canExitEntries([entry])) {
+        return false;
+      }
+
+      this.stack.pop();
+      await this.exitEntry(entry);
+
+      const below = this.top!;
+      below.state.resume?.();
+      this.emit(below.key, "resume");
+      return true;
+    });
   }
 
   update(deltaSeconds: number): void {
-    this.currentState?.update(deltaSeconds);
+    this.top?.state.update(deltaSeconds);
   }
 
   render(deltaSeconds: number): void {
-    this.currentState?.render(deltaSeconds);
+    for (const entry of this.stack) {
+      entry.state.render(deltaSeconds);
+    }
   }
 
   resize(width: number, height: number): void {
-    this.currentState?.resize(width, height);
+    for (const entry of this.stack) {
+      entry.state.resize(width, height);
+    }
   }
 
+  serializeStates(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, state] of this.states) {
+      if (state.serialize) {
+        result[key] = state.serialize();
+      }
+    }
+    return result;
+  }
+
+  // States missing from `data` get `undefined`, so nothing restored earlier carries over.
+  deserializeStates(data: Record<string, unknown>): void {
+    for (const [key, state] of this.states) {
+      state.deserialize?.(data[key]);
+    }
+  }
+
+  // Key of the top-most state (an overlay if one is pushed).
   get current(): string | null {
-    return this.currentKey;
+    return this.top?.key ?? null;
+  }
+
+  // Key of the scene at the bottom of the stack.
+  get base(): string | null {
+    return this.stack[0]?.key ?? null;
+  }
+
+  private get top(): StackEntry | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private getState(key: string): IGameState {
+    const state = this.states.get(key);
+    if (!state) {
+      throw new Error(`State '${key}' is not registered`);
+    }
+    return state;
+  }
+
+  private canExitEntries(entries: StackEntry[]): boolean {
+    return entries.every((entry) => entry.state.canExit?.() ?? true);
+  }
+
+  private async enterEntry(entry: StackEntry): Promise<void> {
+    await entry.state.enter();
+    this.emit(entry.key, "enter");
+  }
+
+  private async exitEntry(entry: StackEntry): Promise<void> {
+    await entry.state.exit();
+    this.emit(entry.key, "exit");
+  }
+
+  private emit(key: string, event: StateLifecycleEvent): void {
+    for (const listener of this.listeners) {
+      listener(key, event);
+    }
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    // Keep the queue alive after a failed transition; the caller still sees the rejection.
+    this.queue = result.catch(() => undefined);
+    return result;
   }
 }
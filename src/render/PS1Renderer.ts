@@ -17,6 +17,7 @@ import {
   WebGLRenderer,
   WebGLRenderTarget
 } from "three";
+import { TRANSITION_MODES, TransitionEffect } from "./Transitions";
 
 export interface PS1RendererOptions {
   pixelScale: number;
@@ -44,6 +45,7 @@ export class PS1Renderer {
 
   private renderTarget: WebGLRenderTarget;
   private lowResSize = new Vector2(320, 180);
+  private readonly outputSize = new Vector2(0, 0);
   private time = 0;
 
   constructor(root: HTMLElement, options?: Partial<PS1RendererOptions>) {
@@ -71,7 +73,11 @@ export class PS1Renderer {
         uTime: { value: 0 },
         uLevels: { value: this.options.colorLevels },
         uEnableDither: { value: this.options.enableDither ? 1 : 0 },
-        uEnableWobble: { value: this.options.enableUvWobble ? 1 : 0 }
+        uEnableWobble: { value: this.options.enableUvWobble ? 1 : 0 },
+        uLowRes: { value: this.lowResSize.clone() },
+        uTransition: { value: 0 },
+        uTransitionMode: { value: TRANSITION_MODES.fade },
+        uTransitionCenter: { value: new Vector2(0.5, 0.5) }
       },
       vertexShader: `
         varying vec2 vUv;
@@ -91,10 +97,56 @@ export class PS1Renderer {
         uniform float uLevels;
         uniform float uEnableDither;
         uniform float uEnableWobble;
+        uniform vec2 uLowRes;
+        uniform float uTransition;
+        uniform float uTransitionMode;
+        uniform vec2 uTransitionCenter;
+
+        float hash(vec2 p) {
+          return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+        }
+
+        // Returns how much of this pixel is covered by the transition (0..1).
+        float transitionCover(vec2 uv) {
+          float p = uTransition;
+          vec2 cell = floor(uv * uLowRes);
+          float aspect = uLowRes.x / uLowRes.y;
+
+          if (uTransitionMode < 0.5) {
+            return p;
+          }
+          if (uTransitionMode < 1.5) {
+            // Pixel dissolve: every low-res pixel flips to black at its own random threshold.
+            return step(hash(cell), p * 1.001);
+          }
+          if (uTransitionMode < 2.5) {
+            // Stepped diagonal wipe, left to right.
+            float edge = (cell.x + cell.y * 0.35) / (uLowRes.x + uLowRes.y * 0.35);
+            return step(edge, p * 1.001);
+          }
+          if (uTransitionMode < 3.5) {
+            vec2 d = (uv - uTransitionCenter) * vec2(aspect, 1.0);
+            float radius = (1.0 - p) * 1.6;
+            return step(radius, length(d));
+          }
+          return smoothstep(0.55, 1.0, p);
+        }
 
         void main() {
           vec2 uv = vUv;
 
+          if (uTransition > 0.0 && uTransitionMode > 3.5) {
+            // Memory-card style swirl: twist and shrink the picture around the center.
+            vec2 aspectScale = vec2(uLowRes.x / uLowRes.y, 1.0);
+            vec2 d = (uv - uTransitionCenter) * aspectScale;
+            float dist = length(d);
+            float angle = uTransition * uTransition * 9.0 * max(0.0, 1.2 - dist);
+            float s = sin(angle);
+            float c = cos(angle);
+            d = mat2(c, -s, s, c) * d * (1.0 + uTransition * 2.5);
+            uv = uTransitionCenter + d / aspectScale;
+          }
+
           if (uEnableWobble > 0.5) {
             vec2 wobble = vec2(
               sin(uv.y * 118.0 + uTime * 2.1),
@@ -111,6 +163,10 @@ export class PS1Renderer {
           }
 
           color = floor(color * uLevels) / uLevels;
+
+          if (uTransition > 0.0) {
+            color = mix(color, vec3(0.0), transitionCover(vUv));
+          }
           gl_FragColor = vec4(color, 1.0);
         }
       `
@@ -121,6 +177,7 @@ export class PS1Renderer {
   }
 
   setSize(width: number, height: number): void {
+    this.outputSize.set(width, height);
     this.renderer.setSize(width, height, false);
 
     const lowW = Math.max(160, Math.floor(width / this.options.pixelScale));
@@ -131,9 +188,26 @@ export class PS1Renderer {
       this.renderTarget.dispose();
       this.renderTarget = this.createRenderTarget(lowW, lowH);
       this.postMaterial.uniforms.uScene.value = this.renderTarget.texture;
+      this.postMaterial.uniforms.uLowRes.value.copy(this.lowResSize);
     }
   }
 
+  // Options can change at runtime (settings menu); pixelScale needs the render target rebuilt.
+  setOptions(options: Partial<PS1RendererOptions>): void {
+    Object.assign(this.options, options);
+    if (this.outputSize.x > 0 && this.outputSize.y > 0) {
+      this.setSize(this.outputSize.x, this.outputSize.y);
+    }
+  }
+
+  // amount: 0 = scene fully visible, 1 = fully covered by the effect.
+  setTransition(effect: TransitionEffect, amount: number): void {
+    const uniforms = this.postMaterial.uniforms;
+    uniforms.uTransition.value = Math.min(1, Math.max(0, amount));
+    uniforms.uTransitionMode.value = TRANSITION_MODES[effect.name];
+    uniforms.uTransitionCenter.value.set(effect.center?.x ?? 0.5, effect.center?.y ?? 0.5);
+  }
+
   render(scene: Scene, camera: Camera, deltaSeconds: number): void {
     this.time += deltaSeconds;
 
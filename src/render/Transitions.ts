@@ -0,0 +1,49 @@
+import type { PS1Renderer } from "./PS1Renderer";
+
+export type TransitionEffectName = "fade" | "dissolve" | "wipe" | "iris" | "swirl";
+
+export interface TransitionEffect {
+  name: TransitionEffectName;
+  durationMs?: number;
+  // Screen point in UV space (0..1, origin bottom-left) used by iris and swirl.
+  center?: { x: number; y: number };
+}
+
+// Values of the `uTransitionMode` uniform in the PS1Renderer post shader.
+export const TRANSITION_MODES: Record<TransitionEffectName, number> = {
+  fade: 0,
+  dissolve: 1,
+  wipe: 2,
+  iris: 3,
+  swirl: 4
+};
+
+export const DEFAULT_TRANSITION_MS = 520;
+
+export function isTransitionEffectName(value: unknown): value is TransitionEffectName {
+  return typeof value === "string" && value in TRANSITION_MODES;
+}
+
+// Drives the renderer's transition amount from `from` to `to` (0 = clear, 1 = fully covered).
+export function animateTransition(
+  renderer: PS1Renderer,
+  effect: TransitionEffect,
+  from: number,
+  to: number
+): Promise<void> {
+  const duration = Math.max(1, effect.durationMs ?? DEFAULT_TRANSITION_MS);
+  const startedAt = performance.now();
+
+  return new Promise((resolve) => {
+    const step = (now: number): void => {
+      const t = Math.min(1, (now - startedAt) / duration);
+      renderer.setTransition(effect, from + (to - from) * t);
+      if (t < 1) {
+        window.requestAnimationFrame(step);
+      } else {
+        resolve();
+      }
+    };
+    window.requestAnimationFrame(step);
+  });
+}
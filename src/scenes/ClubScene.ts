@@ -6,10 +6,11 @@ import {
   Audio,
   AudioListener,
   CircleGeometry,
-  Clock,
   Color,
   ConeGeometry,
+  Group,
   HemisphereLight,
+  MathUtils,
   Mesh,
   MeshBasicMaterial,
   SphereGeometry,
@@ -21,26 +22,44 @@ import {
   Vector3
 } from "three";
 import type { Assets } from "../core/Assets";
+import { CutsceneHost, CutscenePlayer, playAnimationClip } from "../core/Cutscene";
+import { DialogueAction, DialogueGraph, DialogueRunner, DialogueView } from "../core/Dialogue";
+import type { GameFlags } from "../core/GameFlags";
+import type { Input } from "../core/Input";
+import type { InputAction } from "../core/InputActions";
+import { Inventory, ITEMS } from "../core/Inventory";
 import type { IGameState } from "../core/StateMachine";
 import type { UI } from "../ui/UI";
 import {
+  createBalloonPlaceholder,
+  createCakePlaceholder,
   createClubRoomPlaceholder,
   createDJBoothPlaceholder,
   createFriendPlaceholder,
+  createGiftPlaceholder,
   createKittyPlaceholder,
   createLightConeMaterial
 } from "../utils/Placeholders";
+import { CollisionWorld } from "../utils/Collision";
 
 export interface ClubSceneDeps {
   assets: Assets;
+  input: Input;
   ui: UI;
+  flags: GameFlags;
+  inventory: Inventory;
   audioListener: AudioListener;
   renderHook: (scene: Scene, camera: PerspectiveCamera, deltaSeconds: number) => void;
 }
 
 interface DancerSlot {
+  // Cutscene target name.
+  name: string;
   root: Object3D;
   mixer: AnimationMixer | null;
+  clips: AnimationClip[];
+  // What the guest says when Masha talks to them.
+  dialogue: DialogueGraph | null;
   leftArm: Object3D | null;
   rightArm: Object3D | null;
   head: Object3D | null;
@@ -66,6 +85,11 @@ interface MovingSpot {
   radius: number;
 }
 
+interface DanceState {
+  move: DanceMove;
+  time: number;
+}
+
 interface LedNode {
   mesh: Mesh;
   baseOpacity: number;
@@ -81,9 +105,45 @@ const MODEL_PATHS = {
   friendBoy1: "/assets/models/custom/sanya/sanya.obj",
   friendBoy2: "/assets/models/kitty.glb",
   clubRoom: "/assets/models/club_room.glb",
-  djBooth: "/assets/models/dj_booth.glb"
+  djBooth: "/assets/models/dj_booth.glb",
+  gift: "/assets/models/gift.glb",
+  balloon: "/assets/models/balloon.glb",
+  cake: "/assets/models/cake.glb"
 };
 
+const FRIEND_DIALOGUES: Record<string, string> = {
+  artem: "/assets/dialogue/club_artem.json",
+  klim_sanych: "/assets/dialogue/club_klim.json",
+  sanya: "/assets/dialogue/club_sanya.json",
+  kitty: "/assets/dialogue/club_kitty.json"
+};
+
+const CUTSCENE_PATHS = {
+  arrival: "/assets/cutscenes/club_arrival.json"
+};
+
+const CLUB_MUSIC_GAIN = 0.55;
+
+// Masha walks the dance floor between the walls, the DJ booth and the front of the room.
+const FLOOR = { minX: -8.2, maxX: 8.2, minZ: -4.0, maxZ: 4.6 };
+const PLAYER_SPEED = 3.2;
+const PLAYER_RADIUS = 0.4;
+const FACING_TURN_RATE = 10;
+const FRIEND_RADIUS = 0.5;
+const TALK_RADIUS = 1.8;
+// Follow camera, behind and above Masha; it hands over to the fly-through after a while without input.
+const FOLLOW_OFFSET = new Vector3(0, 3.4, 5);
+const FOLLOW_LOOK_OFFSET = new Vector3(0, 1, -0.8);
+const FOLLOW_RATE = 5;
+const IDLE_FLYTHROUGH_SECONDS = 12;
+
+// Each move's length in seconds; the moves themselves are drawn procedurally in `updatePlayerVisual`.
+type DanceMove = "dance1" | "dance2" | "dance3";
+const DANCE_SECONDS: Record<DanceMove, number> = { dance1: 0.9, dance2: 0.8, dance3: 1.2 };
+const DANCE_MOVES = Object.keys(DANCE_SECONDS) as (DanceMove & InputAction)[];
+// Counts every move Masha dances; guests' lines can check it.
+const DANCE_FLAG = "club_dance_moves";
+
 const SLOT_POSITIONS = {
   kitty_center: new Vector3(0, 0, 1.1),
   friend1_left: new Vector3(-3.2, 0, -2.8),
@@ -93,9 +153,30 @@ const SLOT_POSITIONS = {
   slot_dj_booth: new Vector3(0, 0, -5.5)
 };
 
+// What the kitty brought from the village ends up around the DJ booth.
+const GIFT_SLOTS = [
+  new Vector3(-2.35, 0, -4.55),
+  new Vector3(-2.8, 0, -4.1),
+  new Vector3(2.35, 0, -4.55),
+  new Vector3(2.8, 0, -4.1),
+  new Vector3(-2.5, 0.36, -4.35),
+  new Vector3(2.5, 0.36, -4.35)
+];
+const BALLOON_SLOTS = [
+  new Vector3(-2.15, 1.2, -5.6),
+  new Vector3(2.15, 1.2, -5.6),
+  new Vector3(-3.3, 0, -5.2),
+  new Vector3(3.3, 0, -5.2)
+];
+const CAKE_SLOT = new Vector3(1.25, 1.5, -5.35);
+const CAKE_STRAWBERRIES = 3;
+
 export class ClubScene implements IGameState {
   private readonly assets: Assets;
+  private readonly input: Input;
   private readonly ui: UI;
+  private readonly flags: GameFlags;
+  private readonly inventory: Inventory;
   private readonly listener: AudioListener;
   private readonly renderHook: ClubSceneDeps["renderHook"];
 
@@ -106,12 +187,39 @@ export class ClubScene implements IGameState {
   private audioUnlocked = false;
   private music: Audio | null = null;
   private musicElement: HTMLAudioElement | null = null;
+  private musicVolume = 1;
+  private sfxVolume = 1;
+
+  // Plays on every arrival; Masha is the player's once it ends.
+  private cutscene: CutscenePlayer | null = null;
+  private readonly cutsceneHost: CutsceneHost;
+
+  // Masha: `player` walks the floor, `playerVisual` (her model) hops and spins inside it.
+  private readonly player = new Group();
+  private playerVisual: Object3D = new Group();
+  private readonly playerRest = { y: 0, rotY: 0 };
+  private playerMixer: AnimationMixer | null = null;
+  private playerClips: AnimationClip[] = [];
+  private dance: DanceState | null = null;
+  private walkPhase = 0;
+  private walking = false;
+  private readonly collisions = new CollisionWorld();
+  // Guest in talking range, kept while their conversation runs.
+  private talkTarget: DancerSlot | null = null;
+  private dialogue: DialogueRunner | null = null;
+  // Seconds without input; the fly-through camera takes over past IDLE_FLYTHROUGH_SECONDS.
+  private idleTime = 0;
+  private flying = false;
+  private readonly desiredCamPos = new Vector3();
+  private readonly followLook = new Vector3();
 
   private readonly dancers: DancerSlot[] = [];
   private readonly lights: MovingSpot[] = [];
   private readonly floorSpots: Mesh[] = [];
   private readonly leds: LedNode[] = [];
-  private readonly clock = new Clock();
+  private readonly partyTable = new Group();
+  private readonly balloons: Object3D[] = [];
+  private elapsed = 0;
   private readonly tmpDir = new Vector3();
   private readonly upVec = new Vector3(0, 1, 0);
   private readonly cameraWaypoints: Vector3[] = [];
@@ -126,13 +234,25 @@ export class ClubScene implements IGameState {
 
   constructor(deps: ClubSceneDeps) {
     this.assets = deps.assets;
+    this.input = deps.input;
     this.ui = deps.ui;
+    this.flags = deps.flags;
+    this.inventory = deps.inventory;
     this.listener = deps.audioListener;
     this.renderHook = deps.renderHook;
 
     this.scene.background = new Color("#0b1f57");
     this.camera.position.set(0, 4.6, 9.4);
     this.camera.lookAt(0, 1.5, 0);
+
+    this.cutsceneHost = {
+      ui: this.ui,
+      input: this.input,
+      camera: this.camera,
+      getTarget: (name) => (name === "masha" ? this.player : (this.findDancer(name)?.root ?? null)),
+      playAnimation: (target, clip, loop) => this.playAnimation(target, clip, loop),
+      playSound: (path, volume) => void this.playSound(path, volume)
+    };
   }
 
   setAudioUnlocked(value: boolean): void {
@@ -140,27 +260,50 @@ export class ClubScene implements IGameState {
     this.tryStartMusic();
   }
 
+  setMusicVolume(volume: number): void {
+    this.musicVolume = volume;
+    this.music?.setVolume(CLUB_MUSIC_GAIN * volume);
+    if (this.musicElement) {
+      this.musicElement.volume = CLUB_MUSIC_GAIN * volume;
+    }
+  }
+
+  setSfxVolume(volume: number): void {
+    this.sfxVolume = volume;
+  }
+
   async enter(): Promise<void> {
     if (!this.initialized) {
       await this.buildScene();
       this.initialized = true;
     }
+    await this.buildPartyTable();
 
     this.ui.hideDialogue();
     this.ui.hideHint();
+    this.ui.setTouchControlsEnabled(true);
+    this.ui.setTouchDanceEnabled(true);
 
     if (!this.camera.children.includes(this.listener)) {
       this.camera.add(this.listener);
     }
 
-    this.clock.start();
+    this.elapsed = 0;
+    this.resetPlayer();
     this.resetCameraFlight();
+    const arrival = await this.assets.loadCutscene(CUTSCENE_PATHS.arrival);
+    this.cutscene = arrival ? new CutscenePlayer(arrival, this.cutsceneHost) : null;
     this.tryStartMusic();
   }
 
   exit(): void {
+    this.cutscene?.skip();
+    this.cutscene = null;
+    this.dialogue = null;
     this.ui.hideHint();
     this.ui.hideDialogue();
+    this.ui.setTouchControlsEnabled(false);
+    this.ui.setTouchDanceEnabled(false);
     if (this.music?.isPlaying) {
       this.music.stop();
     }
@@ -170,13 +313,28 @@ export class ClubScene implements IGameState {
     }
   }
 
+  pause(): void {
+    if (this.music?.isPlaying) {
+      this.music.pause();
+    }
+    this.musicElement?.pause();
+  }
+
+  resume(): void {
+    this.tryStartMusic();
+  }
+
   update(deltaSeconds: number): void {
-    const t = this.clock.getElapsedTime();
+    this.elapsed += deltaSeconds;
+    const t = this.elapsed;
 
     for (const dancer of this.dancers) {
       if (dancer.mixer) {
         dancer.mixer.update(deltaSeconds);
       }
+      if (this.cutscene?.drives(dancer.name)) {
+        continue;
+      }
 
       if (t >= dancer.nextHopAt) {
         dancer.hopStartAt = t;
@@ -205,8 +363,32 @@ export class ClubScene implements IGameState {
       if (dancer.head) dancer.head.rotation.y = Math.sin(t * 1.7 + dancer.phase) * 0.12;
     }
 
+    for (let i = 0; i < this.balloons.length; i += 1) {
+      const balloon = this.balloons[i];
+      balloon.rotation.z = Math.sin(t * 1.3 + i * 1.1) * 0.12;
+      balloon.rotation.x = Math.cos(t * 1.1 + i * 0.7) * 0.08;
+    }
+
     this.updateLights(t);
-    this.updateDynamicCamera(deltaSeconds);
+    this.playerMixer?.update(deltaSeconds);
+    if (this.cutscene) {
+      this.updateCutscene(this.cutscene, deltaSeconds);
+    } else {
+      if (this.dialogue) {
+        this.handleDialogueInput();
+        this.idleTime = 0;
+        if (this.talkTarget) {
+          this.turnPlayerToward(this.talkTarget.root.position, deltaSeconds);
+        }
+      } else if (!this.dance) {
+        this.handleDanceInput();
+        this.handleMovement(deltaSeconds);
+        this.updateTalkTarget();
+        this.handleInteraction();
+      }
+      this.updateCamera(deltaSeconds);
+    }
+    this.updatePlayerVisual(deltaSeconds);
   }
 
   render(deltaSeconds: number): void {
@@ -252,17 +434,33 @@ export class ClubScene implements IGameState {
     room.root.position.set(0, 0, 0);
     booth.root.position.copy(SLOT_POSITIONS.slot_dj_booth);
     booth.root.position.y += this.getGroundLift(booth.root);
-    kitty.root.position.copy(SLOT_POSITIONS.kitty_center);
-    kitty.root.position.y += this.getGroundLift(kitty.root);
 
-    this.scene.add(room.root, booth.root);
+    this.playerVisual = kitty.root;
+    this.playerVisual.position.set(0, this.getGroundLift(kitty.root), 0);
+    this.playerRest.y = this.playerVisual.position.y;
+    this.playerRest.rotY = this.playerVisual.rotation.y;
+    this.player.clear();
+    this.player.add(this.playerVisual);
+    this.playerClips = kitty.clips;
+    this.playerMixer = kitty.clips.length > 0 ? new AnimationMixer(kitty.root) : null;
 
-    this.addDancer(kitty.root, kitty.clips, SLOT_POSITIONS.kitty_center, 0.95);
+    this.scene.add(room.root, booth.root, this.partyTable, this.player);
 
-    this.addDancer(friend1.root, friend1.clips, SLOT_POSITIONS.friend1_left, 0.3);
-    this.addDancer(friend2.root, friend2.clips, SLOT_POSITIONS.friend2_left_mid, 1.8);
-    this.addDancer(friend3.root, friend3.clips, SLOT_POSITIONS.friend3_right_mid, 3.5);
-    this.addDancer(friend4.root, friend4.clips, SLOT_POSITIONS.friend4_right, 5.0);
+    this.addDancer("artem", friend1.root, friend1.clips, SLOT_POSITIONS.friend1_left, 0.3);
+    this.addDancer("klim_sanych", friend2.root, friend2.clips, SLOT_POSITIONS.friend2_left_mid, 1.8);
+    this.addDancer("sanya", friend3.root, friend3.clips, SLOT_POSITIONS.friend3_right_mid, 3.5);
+    this.addDancer("kitty", friend4.root, friend4.clips, SLOT_POSITIONS.friend4_right, 5.0);
+
+    this.collisions.clear();
+    for (const dancer of this.dancers) {
+      this.collisions.add({ kind: "circle", x: dancer.baseX, z: dancer.baseZ, radius: FRIEND_RADIUS });
+    }
+    await Promise.all(
+      this.dancers.map(async (dancer) => {
+        const path = FRIEND_DIALOGUES[dancer.name];
+        dancer.dialogue = path ? await this.assets.loadDialogue(path) : null;
+      })
+    );
 
     this.addSpotlights();
     this.addFloorSpots();
@@ -272,7 +470,47 @@ export class ClubScene implements IGameState {
     await this.setupMusic();
   }
 
-  private addDancer(root: Object3D, clips: AnimationClip[], position: Vector3, phase: number): void {
+  // Gifts and balloons from the inventory by the booth, and a cake once there are enough strawberries.
+  private async buildPartyTable(): Promise<void> {
+    this.partyTable.clear();
+    this.balloons.length = 0;
+
+    const gifts = Math.min(this.inventory.count("gift"), GIFT_SLOTS.length);
+    const balloons = Math.min(this.inventory.count("balloon"), BALLOON_SLOTS.length);
+    const withCake = this.inventory.count("strawberry") >= CAKE_STRAWBERRIES;
+    const giftColors = [ITEMS.gift.color, "#9fe3ff", "#ffe07e"];
+
+    const [giftModels, balloonModels, cake] = await Promise.all([
+      Promise.all(
+        GIFT_SLOTS.slice(0, gifts).map((_, i) =>
+          this.assets.instantiateModel(MODEL_PATHS.gift, () => createGiftPlaceholder(giftColors[i % giftColors.length]))
+        )
+      ),
+      Promise.all(
+        BALLOON_SLOTS.slice(0, balloons).map(() =>
+          this.assets.instantiateModel(MODEL_PATHS.balloon, () => createBalloonPlaceholder(ITEMS.balloon.color))
+        )
+      ),
+      withCake ? this.assets.instantiateModel(MODEL_PATHS.cake, () => createCakePlaceholder()) : Promise.resolve(null)
+    ]);
+
+    giftModels.forEach(({ root }, i) => {
+      root.position.copy(GIFT_SLOTS[i]);
+      root.rotation.y = i * 0.7;
+      this.partyTable.add(root);
+    });
+    balloonModels.forEach(({ root }, i) => {
+      root.position.copy(BALLOON_SLOTS[i]);
+      this.partyTable.add(root);
+      this.balloons.push(root);
+    });
+    if (cake) {
+      cake.root.position.copy(CAKE_SLOT);
+      this.partyTable.add(cake.root);
+    }
+  }
+
+  private addDancer(name: string, root: Object3D, clips: AnimationClip[], position: Vector3, phase: number): void {
     root.position.copy(position);
     root.position.y += this.getGroundLift(root);
     this.scene.add(root);
@@ -289,8 +527,11 @@ export class ClubScene implements IGameState {
     const head = root.getObjectByName("head") ?? null;
 
     this.dancers.push({
+      name,
       root,
       mixer,
+      clips,
+      dialogue: null,
       leftArm,
       rightArm,
       head,
@@ -530,6 +771,263 @@ export class ClubScene implements IGameState {
     this.cameraLegElapsed = 0;
   }
 
+  private resetPlayer(): void {
+    this.player.position.copy(SLOT_POSITIONS.kitty_center);
+    this.player.rotation.y = 0;
+    this.dance = null;
+    this.walking = false;
+    this.dialogue = null;
+    this.talkTarget = null;
+    this.idleTime = 0;
+    this.flying = false;
+    this.updatePlayerVisual(0);
+  }
+
+  private handleMovement(deltaSeconds: number): void {
+    // The camera looks down -Z from behind Masha, so up on the stick is -Z.
+    const move = this.input.getMovementVector();
+    this.walking = move.lengthSq() > 1e-4;
+    if (!this.walking) {
+      this.idleTime += deltaSeconds;
+      return;
+    }
+    this.idleTime = 0;
+
+    const position = this.player.position;
+    position.x += move.x * PLAYER_SPEED * deltaSeconds;
+    position.z -= move.y * PLAYER_SPEED * deltaSeconds;
+    this.collisions.resolve(position, PLAYER_RADIUS);
+    position.x = MathUtils.clamp(position.x, FLOOR.minX, FLOOR.maxX);
+    position.z = MathUtils.clamp(position.z, FLOOR.minZ, FLOOR.maxZ);
+
+    this.turnPlayerTo(Math.atan2(-move.x, move.y), deltaSeconds);
+  }
+
+  private turnPlayerToward(target: Vector3, deltaSeconds: number): void {
+    const dx = target.x - this.player.position.x;
+    const dz = target.z - this.player.position.z;
+    if (dx * dx + dz * dz > 1e-6) {
+      this.turnPlayerTo(Math.atan2(-dx, -dz), deltaSeconds);
+    }
+  }
+
+  // Masha faces her local -Z, like the kitty.
+  private turnPlayerTo(yaw: number, deltaSeconds: number): void {
+    const rotation = this.player.rotation;
+    const delta = Math.atan2(Math.sin(yaw - rotation.y), Math.cos(yaw - rotation.y));
+    rotation.y += delta * (1 - Math.exp(-deltaSeconds * FACING_TURN_RATE));
+  }
+
+  private handleDanceInput(): void {
+    const move = DANCE_MOVES.find((action) => this.input.consumeAction(action));
+    if (!move) {
+      return;
+    }
+    this.dance = { move, time: 0 };
+    this.walking = false;
+    this.idleTime = 0;
+    this.ui.hideHint();
+    this.flags.add(DANCE_FLAG, 1);
+    // Models that ship clips named after the moves play them on top of the procedural motion.
+    if (this.playerMixer) {
+      playAnimationClip(this.playerMixer, this.playerClips, move, false);
+    }
+  }
+
+  // Dance moves and the walking bob, relative to the model's rest pose.
+  private updatePlayerVisual(deltaSeconds: number): void {
+    const visual = this.playerVisual;
+    visual.position.y = this.playerRest.y;
+    visual.rotation.set(0, this.playerRest.rotY, 0);
+
+    const dance = this.dance;
+    if (!dance) {
+      this.walkPhase = this.walking ? this.walkPhase + deltaSeconds * 11 : 0;
+      visual.position.y += Math.abs(Math.sin(this.walkPhase)) * 0.06;
+      return;
+    }
+
+    dance.time += deltaSeconds;
+    const progress = Math.min(1, dance.time / DANCE_SECONDS[dance.move]);
+    switch (dance.move) {
+      case "dance1": {
+        // A full spin with a little hop.
+        const eased = progress * progress * (3 - 2 * progress);
+        visual.rotation.y += eased * Math.PI * 2;
+        visual.position.y += Math.sin(progress * Math.PI) * 0.18;
+        break;
+      }
+      case "dance2":
+        // Two quick jumps.
+        visual.position.y += Math.abs(Math.sin(progress * Math.PI * 2)) * 0.34;
+        break;
+      case "dance3":
+        // Sways side to side.
+        visual.rotation.z = Math.sin(progress * Math.PI * 4) * 0.3;
+        visual.position.y += Math.abs(Math.sin(progress * Math.PI * 4)) * 0.05;
+        break;
+    }
+    if (progress >= 1) {
+      this.dance = null;
+    }
+  }
+
+  private updateTalkTarget(): void {
+    const position = this.player.position;
+    let best: DancerSlot | null = null;
+    let bestDistance = TALK_RADIUS;
+    for (const dancer of this.dancers) {
+      const distance = Math.hypot(dancer.root.position.x - position.x, dancer.root.position.z - position.z);
+      if (dancer.dialogue && distance < bestDistance) {
+        best = dancer;
+        bestDistance = distance;
+      }
+    }
+    this.talkTarget = best;
+  }
+
+  private handleInteraction(): void {
+    const dialogue = this.talkTarget?.dialogue;
+    if (!dialogue) {
+      this.ui.hideHint();
+      return;
+    }
+
+    this.ui.showHint(`${this.input.describeAction("interact", 1)} - talk`);
+    if (this.input.consumeAction("interact")) {
+      this.startDialogue(dialogue);
+    }
+  }
+
+  private startDialogue(graph: DialogueGraph): void {
+    this.dialogue = new DialogueRunner(graph, {
+      flags: this.flags,
+      onAction: (action) => this.runDialogueAction(action)
+    });
+    this.walking = false;
+    this.ui.hideHint();
+    this.showDialogueView(this.dialogue.start());
+  }
+
+  private handleDialogueInput(): void {
+    const view = this.dialogue?.current;
+    if (!this.dialogue || !view) {
+      return;
+    }
+
+    // Advance pressed mid-reveal finishes the line instead of skipping it.
+    if (this.ui.isDialogueRevealing()) {
+      if (this.input.consumeAction("advance")) {
+        this.ui.completeDialogueReveal();
+      }
+      return;
+    }
+
+    if (view.choices.length > 0 || !this.input.consumeAction("advance")) {
+      return;
+    }
+    this.showDialogueView(this.dialogue.advance());
+  }
+
+  private showDialogueView(view: DialogueView | null): void {
+    if (view) {
+      this.ui.showDialogue({ speaker: view.speaker, text: view.text });
+      if (view.choices.length > 0) {
+        void this.awaitDialogueChoice(view);
+      }
+      return;
+    }
+
+    this.dialogue = null;
+    this.ui.hideDialogue();
+  }
+
+  private async awaitDialogueChoice(view: DialogueView): Promise<void> {
+    const runner = this.dialogue;
+    const picked = await this.ui.showChoices(view.choices);
+    if (picked === null || !runner || this.dialogue !== runner) {
+      return;
+    }
+    this.showDialogueView(runner.choose(picked));
+  }
+
+  // The party is the last stop: flag and item actions apply, but nothing leaves the club.
+  private runDialogueAction(action: DialogueAction): void {
+    // eslint-disable-next-line no-console
+    console.warn(`[ClubScene] Dialogue action '${action.type}' is not supported in the club.`);
+  }
+
+  private updateCamera(deltaSeconds: number): void {
+    const flying = this.idleTime >= IDLE_FLYTHROUGH_SECONDS;
+    if (flying && !this.flying) {
+      this.continueCameraFlight();
+    }
+    this.flying = flying;
+    if (flying) {
+      this.updateDynamicCamera(deltaSeconds);
+      return;
+    }
+
+    const blend = 1 - Math.exp(-deltaSeconds * FOLLOW_RATE);
+    this.desiredCamPos.copy(this.player.position).add(FOLLOW_OFFSET);
+    this.followLook.copy(this.player.position).add(FOLLOW_LOOK_OFFSET);
+    this.camera.position.lerp(this.desiredCamPos, blend);
+    this.camLookNow.lerp(this.followLook, blend);
+    this.camera.lookAt(this.camLookNow);
+  }
+
+  // The next fly-through leg starts from the current view.
+  private continueCameraFlight(): void {
+    this.camFromPos.copy(this.camera.position);
+    this.camToPos.copy(this.camera.position);
+    this.camLookFrom.copy(this.camLookNow);
+    this.camLookTo.copy(this.camLookNow);
+    this.cameraLegElapsed = this.cameraLegDuration;
+  }
+
+  private findDancer(name: string): DancerSlot | undefined {
+    return this.dancers.find((dancer) => dancer.name === name);
+  }
+
+  private updateCutscene(cutscene: CutscenePlayer, deltaSeconds: number): void {
+    const driven = this.dancers.filter((dancer) => cutscene.drives(dancer.name));
+    cutscene.update(deltaSeconds);
+    if (!cutscene.finished) {
+      return;
+    }
+    this.cutscene = null;
+
+    // Guests the cutscene moved dance on from where it left them.
+    for (const dancer of driven) {
+      dancer.baseX = dancer.root.position.x;
+      dancer.baseZ = dancer.root.position.z;
+      dancer.baseRotY = dancer.root.rotation.y;
+    }
+    // The follow camera eases in from the cutscene's last shot.
+    cutscene.getLookAt(this.camLookNow);
+  }
+
+  private playAnimation(target: string, clipName: string, loop: boolean): void {
+    const dancer = this.findDancer(target);
+    const mixer = target === "masha" ? this.playerMixer : dancer?.mixer;
+    const clips = target === "masha" ? this.playerClips : (dancer?.clips ?? []);
+    if (mixer && !playAnimationClip(mixer, clips, clipName, loop)) {
+      // eslint-disable-next-line no-console
+      console.warn(`[ClubScene] No animation '${clipName}' on '${target}'.`);
+    }
+  }
+
+  private async playSound(path: string, volume: number): Promise<void> {
+    const buffer = await this.assets.loadAudioBuffer(path);
+    if (!buffer || !this.audioUnlocked) {
+      return;
+    }
+    const sound = new Audio(this.listener);
+    sound.setBuffer(buffer);
+    sound.setVolume(volume * this.sfxVolume);
+    sound.play();
+  }
+
   private async setupMusic(): Promise<void> {
     if (this.music || this.musicElement) {
       return;
@@ -539,7 +1037,7 @@ export class ClubScene implements IGameState {
     if (buffer) {
       this.music = new Audio(this.listener);
       this.music.setLoop(true);
-      this.music.setVolume(0.55);
+      this.music.setVolume(CLUB_MUSIC_GAIN * this.musicVolume);
       this.music.setBuffer(buffer);
 
       this.tryStartMusic();
@@ -552,7 +1050,7 @@ export class ClubScene implements IGameState {
     element.loop = true;
     element.preload = "auto";
     element.crossOrigin = "anonymous";
-    element.volume = 0.55;
+    element.volume = CLUB_MUSIC_GAIN * this.musicVolume;
     this.musicElement = element;
 
     this.tryStartMusic();
@@ -0,0 +1,196 @@
+import type { Input } from "../core/Input";
+import {
+  ACTION_LABELS,
+  DEFAULT_BINDINGS,
+  INPUT_ACTIONS,
+  findBindingConflicts,
+  hasBindingConflicts,
+  type InputAction,
+  type InputBinding,
+  type InputBindings
+} from "../core/InputActions";
+import type { Settings } from "../core/Settings";
+import type { IGameState } from "../core/StateMachine";
+import type { ChoiceOption } from "../ui/ChoiceMenu";
+import type { UI } from "../ui/UI";
+
+export interface ControlsSceneDeps {
+  ui: UI;
+  input: Input;
+  settings: Settings;
+  onClose: () => void;
+}
+
+// Captured instead of bound: lets keyboard users drop a binding from the capture prompt.
+const REMOVE_BINDING_KEY = "Delete";
+
+// Overlay state pushed from the settings screen: lists actions and remaps their bindings.
+export class ControlsScene implements IGameState {
+  private readonly ui: UI;
+  private readonly input: Input;
+  private readonly settings: Settings;
+  private readonly onClose: () => void;
+
+  private menuToken = 0;
+  private selectedRow = 0;
+
+  constructor(deps: ControlsSceneDeps) {
+    this.ui = deps.ui;
+    this.input = deps.input;
+    this.settings = deps.settings;
+    this.onClose = deps.onClose;
+  }
+
+  enter(): void {
+    this.selectedRow = 0;
+    void this.runMenu("");
+  }
+
+  exit(): void {
+    this.menuToken += 1;
+    this.input.cancelCapture();
+    this.ui.hideMenu();
+  }
+
+  pause(): void {
+    this.menuToken += 1;
+    this.input.cancelCapture();
+  }
+
+  resume(): void {
+    void this.runMenu("");
+  }
+
+  update(): void {
+    // Input is handled by the menu and the binding capture.
+  }
+
+  render(): void {
+    // The state below renders the frame; the menu lives in the DOM overlay.
+  }
+
+  resize(): void {
+    // DOM overlay only.
+  }
+
+  private get bindings(): InputBindings {
+    return this.settings.values.bindings;
+  }
+
+  private describe(bindings: InputBinding[]): string {
+    return bindings.length > 0 ? bindings.map((binding) => this.input.formatBinding(binding)).join(", ") : "-";
+  }
+
+  private async runMenu(subtitle: string): Promise<void> {
+    const token = ++this.menuToken;
+    const bindings = this.bindings;
+    const options: ChoiceOption[] = [
+      ...INPUT_ACTIONS.map((action) => {
+        const mark = hasBindingConflicts(bindings, action) ? "! " : "";
+        return { text: `${mark}${ACTION_LABELS[action]}: ${this.describe(bindings[action])}` };
+      }),
+      { text: "Reset controls" },
+      { text: "Back" }
+    ];
+
+    const picked = await this.ui.showMenu("Controls", options, subtitle, this.selectedRow);
+    if (token !== this.menuToken) {
+      return;
+    }
+
+    const action = picked === null ? undefined : INPUT_ACTIONS[picked];
+    if (action) {
+      this.selectedRow = picked ?? 0;
+      await this.runActionMenu(token, action);
+      return;
+    }
+
+    if (picked === INPUT_ACTIONS.length) {
+      this.selectedRow = picked;
+      this.settings.update({ bindings: DEFAULT_BINDINGS });
+      void this.runMenu("Controls reset");
+      return;
+    }
+
+    this.onClose();
+  }
+
+  // Picking an existing binding replaces it; "Add binding" appends a new one.
+  private async runActionMenu(token: number, action: InputAction): Promise<void> {
+    const current = this.bindings[action];
+    const picked = await this.ui.showMenu(
+      ACTION_LABELS[action],
+      [...current.map((binding) => ({ text: this.input.formatBinding(binding) })), { text: "Add binding" }, { text: "Back" }],
+      "Pick a binding to change or remove it"
+    );
+    if (token !== this.menuToken) {
+      return;
+    }
+
+    if (picked === null || picked > current.length) {
+      void this.runMenu("");
+      return;
+    }
+
+    await this.captureBinding(action, picked < current.length ? current[picked] : null);
+  }
+
+  private async captureBinding(action: InputAction, replacing: InputBinding | null): Promise<void> {
+    const token = ++this.menuToken;
+    const prompt = replacing
+      ? `Press a new key, click or pad button to replace ${this.input.formatBinding(replacing)} ` +
+        `(${this.input.formatBinding(REMOVE_BINDING_KEY)} - remove, Esc - cancel)`
+      : "Press a key, click or pad button (Esc - cancel)";
+    void this.ui.showMenu(ACTION_LABELS[action], [], prompt);
+
+    const captured = await this.input.captureBinding();
+    if (token !== this.menuToken) {
+      return;
+    }
+
+    if (captured === null) {
+      void this.runActionMenu(token, action);
+      return;
+    }
+
+    const bindings = this.bindings;
+    const list = bindings[action].filter((binding) => binding !== replacing && binding !== captured);
+    if (captured === REMOVE_BINDING_KEY) {
+      this.settings.update({ bindings: { [action]: list } });
+      void this.runActionMenu(token, action);
+      return;
+    }
+
+    const index = replacing ? bindings[action].indexOf(replacing) : list.length;
+    list.splice(Math.min(index, list.length), 0, captured);
+
+    const conflicts = findBindingConflicts(bindings, action, captured);
+    if (conflicts.length > 0 && !(await this.confirmConflict(token, captured, conflicts))) {
+      if (token === this.menuToken) {
+        void this.runActionMenu(token, action);
+      }
+      return;
+    }
+    if (token !== this.menuToken) {
+      return;
+    }
+
+    const patch: Partial<InputBindings> = { [action]: list };
+    for (const other of conflicts) {
+      patch[other] = bindings[other].filter((binding) => binding !== captured);
+    }
+    this.settings.update({ bindings: patch });
+    void this.runActionMenu(token, action);
+  }
+
+  // Resolves true when the binding should move to the new action, false to cancel.
+  private async confirmConflict(token: number, binding: InputBinding, conflicts: InputAction[]): Promise<boolean> {
+    const names = conflicts.map((action) => ACTION_LABELS[action]).join(", ");
+    const picked = await this.ui.showMenu(
+      "Binding conflict",
+      [{ text: "Move it here" }, { text: "Cancel" }],
+      `${this.input.formatBinding(binding)} is already used by ${names}`
+    );
+    return token === this.menuToken && picked === 0;
+  }
+}
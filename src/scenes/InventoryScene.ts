@@ -0,0 +1,54 @@
+import type { Inventory } from "../core/Inventory";
+import type { IGameState } from "../core/StateMachine";
+import type { UI } from "../ui/UI";
+
+export interface InventorySceneDeps {
+  ui: UI;
+  inventory: Inventory;
+  onClose: () => void;
+}
+
+// Overlay state listing carried items over the paused scene.
+export class InventoryScene implements IGameState {
+  private readonly ui: UI;
+  private readonly inventory: Inventory;
+  private readonly onClose: () => void;
+
+  private panelToken = 0;
+
+  constructor(deps: InventorySceneDeps) {
+    this.ui = deps.ui;
+    this.inventory = deps.inventory;
+    this.onClose = deps.onClose;
+  }
+
+  enter(): void {
+    this.ui.hideHint();
+    void this.showPanel();
+  }
+
+  exit(): void {
+    this.panelToken += 1;
+    this.ui.hideInventory();
+  }
+
+  update(): void {
+    // The inventory action and pause close the overlay (handled by Game).
+  }
+
+  render(): void {
+    // The scene below renders the frame; the panel lives in the DOM overlay.
+  }
+
+  resize(): void {
+    // DOM overlay only.
+  }
+
+  private async showPanel(): Promise<void> {
+    const token = ++this.panelToken;
+    await this.ui.showInventory(this.inventory.getEntries());
+    if (token === this.panelToken) {
+      this.onClose();
+    }
+  }
+}
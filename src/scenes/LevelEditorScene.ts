@@ -0,0 +1,452 @@
+import {
+  BoxHelper,
+  DoubleSide,
+  MathUtils,
+  Mesh,
+  MeshBasicMaterial,
+  PerspectiveCamera,
+  Raycaster,
+  RingGeometry,
+  Vector2,
+  Vector3
+} from "three";
+import type { Input } from "../core/Input";
+import type { LevelEntity } from "../core/Level";
+import type { IGameState } from "../core/StateMachine";
+import type { UI } from "../ui/UI";
+import type { HillSpec } from "../utils/Terrain";
+import { VILLAGE_MODELS } from "../utils/WorldLayout";
+import type { WorldScene } from "./WorldScene";
+
+export interface LevelEditorSceneDeps {
+  input: Input;
+  ui: UI;
+  world: WorldScene;
+}
+
+type EditorTool = "select" | "place" | "hill";
+
+interface PaletteEntry {
+  label: string;
+  template: Omit<LevelEntity, "id" | "position">;
+}
+
+// Models the place tool can drop; placed entities copy everything but id and position.
+const EDITOR_PALETTE: PaletteEntry[] = [
+  {
+    label: "House A",
+    template: { model: VILLAGE_MODELS.house, placeholder: "houseA", scale: 4, tags: ["house"], collider: "box" }
+  },
+  {
+    label: "House B",
+    template: { model: VILLAGE_MODELS.house, placeholder: "houseB", scale: 4, tags: ["house"], collider: "box" }
+  },
+  {
+    label: "Masha",
+    template: { model: VILLAGE_MODELS.npcGirl, placeholder: "npcGirl", collider: "circle" }
+  },
+  {
+    label: "Artem",
+    template: { model: VILLAGE_MODELS.artem, placeholder: "friend", collider: "circle" }
+  },
+  {
+    label: "Klim Sanych",
+    template: { model: VILLAGE_MODELS.klim, placeholder: "friend", collider: "circle" }
+  },
+  {
+    label: "Sanya",
+    template: { model: VILLAGE_MODELS.sanya, placeholder: "friend", collider: "circle" }
+  },
+  {
+    label: "Gift",
+    template: { model: VILLAGE_MODELS.gift, placeholder: "gift", item: "gift" }
+  },
+  {
+    label: "Balloon",
+    template: { model: VILLAGE_MODELS.balloon, placeholder: "balloon", item: "balloon" }
+  },
+  {
+    label: "Strawberry",
+    template: { model: VILLAGE_MODELS.strawberry, placeholder: "strawberry", item: "strawberry" }
+  }
+];
+
+const TOOL_KEYS: Record<string, EditorTool> = { Digit1: "select", Digit2: "place", Digit3: "hill" };
+const ROTATE_STEP = MathUtils.degToRad(15);
+const SCALE_STEP = 1.1;
+const HILL_HEIGHT_STEP = 0.1;
+const PAN_SPEED = 0.9;
+const ORBIT_SPEED = 1.8;
+const CAMERA_PITCH = MathUtils.degToRad(55);
+const MIN_DISTANCE = 6;
+const MAX_DISTANCE = 70;
+// Hill footprint radius relative to its `sx`, as used by the terrain height function.
+const HILL_RADIUS = 0.64;
+
+// Debug-only overlay on top of WorldScene: a free camera over the level, click to select / move /
+// place models and hills, keys to rotate and scale, P to download the edited level file.
+export class LevelEditorScene implements IGameState {
+  private readonly input: Input;
+  private readonly ui: UI;
+  private readonly world: WorldScene;
+
+  private readonly camera = new PerspectiveCamera(60, 16 / 9, 0.1, 300);
+  private readonly focus = new Vector3();
+  private yaw = 0;
+  private distance = 24;
+
+  private tool: EditorTool = "select";
+  private paletteIndex = 0;
+  private selectedEntity: string | null = null;
+  private selectedHill: HillSpec | null = null;
+  private entityHelper: BoxHelper | null = null;
+  private readonly hillMarker = new Mesh(
+    new RingGeometry(0.94, 1, 40),
+    new MeshBasicMaterial({ color: "#ffdf8f", side: DoubleSide, depthTest: false })
+  );
+  private panelText = "";
+
+  private readonly raycaster = new Raycaster();
+  private readonly pointer = new Vector2();
+  private readonly groundPoint = new Vector3();
+
+  constructor(deps: LevelEditorSceneDeps) {
+    this.input = deps.input;
+    this.ui = deps.ui;
+    this.world = deps.world;
+
+    this.hillMarker.rotation.x = -Math.PI * 0.5;
+    this.hillMarker.renderOrder = 10;
+  }
+
+  enter(): void {
+    this.world.getPlayerPosition(this.focus);
+    this.focus.y = 0;
+    this.world.setViewCamera(this.camera);
+    this.world.getScene().add(this.hillMarker);
+    this.ui.hideHint();
+    this.ui.setTouchControlsEnabled(false);
+    this.select(null, null);
+    this.updateCamera();
+
+    window.addEventListener("pointerdown", this.onPointerDown);
+    window.addEventListener("wheel", this.onWheel, { passive: true });
+  }
+
+  exit(): void {
+    window.removeEventListener("pointerdown", this.onPointerDown);
+    window.removeEventListener("wheel", this.onWheel);
+
+    this.select(null, null);
+    this.world.getScene().remove(this.hillMarker);
+    this.world.setViewCamera(null);
+    this.ui.hideDebugPanel();
+    this.panelText = "";
+    this.ui.setTouchControlsEnabled(true);
+  }
+
+  update(deltaSeconds: number): void {
+    this.handleCameraKeys(deltaSeconds);
+    this.handleEditKeys();
+    this.updateCamera();
+    this.entityHelper?.update();
+    this.updatePanel();
+  }
+
+  render(): void {
+    // WorldScene below renders the frame through the editor camera.
+  }
+
+  resize(width: number, height: number): void {
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+  }
+
+  private handleCameraKeys(deltaSeconds: number): void {
+    const axis = (negative: string[], positive: string[]): number =>
+      (positive.some((code) => this.input.isDown(code)) ? 1 : 0) -
+      (negative.some((code) => this.input.isDown(code)) ? 1 : 0);
+
+    const forward = axis(["KeyS", "ArrowDown"], ["KeyW", "ArrowUp"]);
+    const right = axis(["KeyA", "ArrowLeft"], ["KeyD", "ArrowRight"]);
+    const speed = PAN_SPEED * this.distance * deltaSeconds;
+    const sin = Math.sin(this.yaw);
+    const cos = Math.cos(this.yaw);
+    this.focus.x += (-sin * forward + cos * right) * speed;
+    this.focus.z += (-cos * forward - sin * right) * speed;
+
+    this.yaw += axis(["KeyC"], ["KeyZ"]) * ORBIT_SPEED * deltaSeconds;
+  }
+
+  private handleEditKeys(): void {
+    for (const [code, tool] of Object.entries(TOOL_KEYS)) {
+      if (this.input.consumePressed(code)) {
+        this.tool = tool;
+        this.select(null, null);
+      }
+    }
+
+    if (this.input.consumePressed("BracketLeft")) {
+      this.paletteIndex = (this.paletteIndex + EDITOR_PALETTE.length - 1) % EDITOR_PALETTE.length;
+    }
+    if (this.input.consumePressed("BracketRight")) {
+      this.paletteIndex = (this.paletteIndex + 1) % EDITOR_PALETTE.length;
+    }
+    if (this.input.consumePressed("KeyP")) {
+      this.exportLevel();
+    }
+
+    if (this.selectedEntity) {
+      this.editEntity(this.selectedEntity);
+    } else if (this.selectedHill) {
+      this.editHill(this.selectedHill);
+    }
+  }
+
+  private editEntity(id: string): void {
+    const level = this.world.getLevel();
+    const entity = level.entities.find((candidate) => candidate.id === id);
+    if (!entity) {
+      return;
+    }
+
+    if (this.input.consumePressed("Delete") || this.input.consumePressed("Backspace")) {
+      level.entities.splice(level.entities.indexOf(entity), 1);
+      this.world.removeEntity(id);
+      this.select(null, null);
+      return;
+    }
+
+    let changed = false;
+    const turn = (this.input.consumePressed("KeyQ") ? 1 : 0) - (this.input.consumePressed("KeyE") ? 1 : 0);
+    if (turn !== 0) {
+      entity.rotY = wrapAngle((entity.rotY ?? 0) + turn * ROTATE_STEP);
+      changed = true;
+    }
+
+    const grow = (this.input.consumePressed("KeyR") ? 1 : 0) - (this.input.consumePressed("KeyF") ? 1 : 0);
+    if (grow !== 0) {
+      const factor = grow > 0 ? SCALE_STEP : 1 / SCALE_STEP;
+      const scale = entity.scale ?? 1;
+      entity.scale =
+        typeof scale === "number"
+          ? scale * factor
+          : { x: scale.x * factor, y: scale.y * factor, z: scale.z * factor };
+      changed = true;
+    }
+
+    if (changed) {
+      this.world.refreshEntity(id);
+    }
+  }
+
+  private editHill(hill: HillSpec): void {
+    const hills = this.world.getLevel().terrain.hills;
+    if (this.input.consumePressed("Delete") || this.input.consumePressed("Backspace")) {
+      hills.splice(hills.indexOf(hill), 1);
+      this.select(null, null);
+      this.world.rebuildTerrain();
+      return;
+    }
+
+    let changed = false;
+    const grow = (this.input.consumePressed("KeyR") ? 1 : 0) - (this.input.consumePressed("KeyF") ? 1 : 0);
+    if (grow !== 0) {
+      const factor = grow > 0 ? SCALE_STEP : 1 / SCALE_STEP;
+      hill.sx *= factor;
+      hill.sz *= factor;
+      changed = true;
+    }
+
+    const raise = (this.input.consumePressed("KeyT") ? 1 : 0) - (this.input.consumePressed("KeyG") ? 1 : 0);
+    if (raise !== 0) {
+      hill.sy = Math.max(HILL_HEIGHT_STEP, hill.sy + raise * HILL_HEIGHT_STEP);
+      changed = true;
+    }
+
+    if (changed) {
+      this.world.rebuildTerrain();
+      this.select(null, hill);
+    }
+  }
+
+  private handleClick(shiftKey: boolean): void {
+    const level = this.world.getLevel();
+
+    if (this.tool === "select") {
+      const picked = this.world.pickEntity(this.raycaster);
+      if (picked) {
+        this.select(picked, null);
+        return;
+      }
+      const entity = level.entities.find((candidate) => candidate.id === this.selectedEntity);
+      if (entity && this.world.pickGround(this.raycaster, this.groundPoint)) {
+        entity.position = { ...entity.position, x: this.groundPoint.x, z: this.groundPoint.z };
+        this.world.refreshEntity(entity.id);
+      }
+      return;
+    }
+
+    if (!this.world.pickGround(this.raycaster, this.groundPoint)) {
+      return;
+    }
+    const { x, z } = this.groundPoint;
+
+    if (this.tool === "place") {
+      void this.placeEntity(x, z);
+      return;
+    }
+
+    // Hill tool: click a hill to select it, click elsewhere to move the selection, shift-click to add one.
+    const hills = level.terrain.hills;
+    const hit = hills.find((hill) => Math.hypot(hill.x - x, hill.z - z) < hill.sx * HILL_RADIUS);
+    if (hit && !shiftKey) {
+      this.select(null, hit);
+      return;
+    }
+
+    let hill = this.selectedHill;
+    if (shiftKey || !hill) {
+      hill = { x, z, sx: 3, sy: 1, sz: 2.7 };
+      hills.push(hill);
+    }
+    hill.x = x;
+    hill.z = z;
+    this.world.rebuildTerrain();
+    this.select(null, hill);
+  }
+
+  private async placeEntity(x: number, z: number): Promise<void> {
+    const entry = EDITOR_PALETTE[this.paletteIndex];
+    const level = this.world.getLevel();
+    const base = entry.label.toLowerCase().replace(/\s+/gu, "_");
+    let index = 1;
+    while (level.entities.some((entity) => entity.id === `${base}_${index}`)) {
+      index += 1;
+    }
+
+    const entity: LevelEntity = {
+      ...structuredClone(entry.template),
+      id: `${base}_${index}`,
+      position: { x, z },
+      rotY: this.yaw
+    };
+    level.entities.push(entity);
+    await this.world.addEntity(entity);
+    this.select(entity.id, null);
+  }
+
+  private select(entityId: string | null, hill: HillSpec | null): void {
+    if (this.entityHelper) {
+      this.world.getScene().remove(this.entityHelper);
+      this.entityHelper.dispose();
+      this.entityHelper = null;
+    }
+
+    this.selectedEntity = entityId;
+    this.selectedHill = hill;
+
+    const object = entityId ? this.world.getEntityObject(entityId) : null;
+    if (object) {
+      this.entityHelper = new BoxHelper(object, "#ffdf8f");
+      this.world.getScene().add(this.entityHelper);
+    }
+
+    this.hillMarker.visible = hill !== null;
+    if (hill) {
+      const radius = hill.sx * HILL_RADIUS;
+      this.hillMarker.scale.set(radius, (hill.sz / hill.sx) * radius, 1);
+      this.hillMarker.position.set(hill.x, hill.sy * 1.25 + 0.3, hill.z);
+    }
+  }
+
+  private updateCamera(): void {
+    const horizontal = Math.cos(CAMERA_PITCH) * this.distance;
+    this.camera.position.set(
+      this.focus.x + Math.sin(this.yaw) * horizontal,
+      this.focus.y + Math.sin(CAMERA_PITCH) * this.distance,
+      this.focus.z + Math.cos(this.yaw) * horizontal
+    );
+    this.camera.lookAt(this.focus);
+  }
+
+  private updatePanel(): void {
+    const level = this.world.getLevel();
+    const lines = [
+      `LEVEL EDITOR - ${level.id}   (F2 to leave)`,
+      `Tool: ${this.tool}   [1] select  [2] place  [3] hill`,
+      `Model: ${EDITOR_PALETTE[this.paletteIndex].label}   [ / ] to change`
+    ];
+
+    const entity = level.entities.find((candidate) => candidate.id === this.selectedEntity);
+    if (entity) {
+      const scale = entity.scale ?? 1;
+      lines.push(
+        `Selected: ${entity.id}  x ${entity.position.x.toFixed(2)}  z ${entity.position.z.toFixed(2)}  ` +
+          `rot ${Math.round(MathUtils.radToDeg(entity.rotY ?? 0))}  scale ${typeof scale === "number" ? scale.toFixed(2) : "xyz"}`,
+        "Q/E rotate  R/F scale  click ground to move  Del remove"
+      );
+    } else if (this.selectedHill) {
+      const hill = this.selectedHill;
+      lines.push(
+        `Hill: x ${hill.x.toFixed(2)}  z ${hill.z.toFixed(2)}  size ${hill.sx.toFixed(2)}  height ${hill.sy.toFixed(2)}`,
+        "R/F size  T/G height  click ground to move  Del remove"
+      );
+    } else {
+      lines.push(
+        this.tool === "select"
+          ? "Click a model to select it"
+          : this.tool === "place"
+            ? "Click the ground to place the model"
+            : "Click a hill to select it, shift-click to add one"
+      );
+    }
+    lines.push("WASD pan  Z/C orbit  wheel zoom  P export level file");
+
+    const text = lines.join("\n");
+    if (text !== this.panelText) {
+      this.panelText = text;
+      this.ui.showDebugPanel(text);
+    }
+  }
+
+  private exportLevel(): void {
+    const level = this.world.getLevel();
+    // Millimetres are plenty and keep the file diffable.
+    const json = JSON.stringify(
+      level,
+      (_key, value: unknown) => (typeof value === "number" ? Math.round(value * 1000) / 1000 : value),
+      2
+    );
+    const url = URL.createObjectURL(new Blob([`${json}\n`], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${level.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private readonly onPointerDown = (event: PointerEvent): void => {
+    if (event.button !== 0 || !(event.target instanceof HTMLCanvasElement)) {
+      return;
+    }
+
+    const rect = event.target.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    this.handleClick(event.shiftKey);
+  };
+
+  private readonly onWheel = (event: WheelEvent): void => {
+    if (event.target instanceof HTMLCanvasElement) {
+      this.distance = MathUtils.clamp(this.distance * Math.exp(event.deltaY * 0.001), MIN_DISTANCE, MAX_DISTANCE);
+    }
+  };
+}
+
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
@@ -0,0 +1,115 @@
+import type { SaveSlotInfo } from "../core/SaveSystem";
+import type { IGameState } from "../core/StateMachine";
+import type { UI } from "../ui/UI";
+import { formatSaveSlot } from "./TitleScene";
+
+export interface PauseSceneDeps {
+  ui: UI;
+  listSaves: () => SaveSlotInfo[];
+  onResume: () => void;
+  onSave: (slot: string) => boolean;
+  onSettings: () => void;
+  onQuitToTitle: () => void;
+}
+
+const MANUAL_SLOTS = ["slot-1", "slot-2", "slot-3"];
+
+// Overlay state: pushed on top of a scene, which keeps rendering but stops updating.
+export class PauseScene implements IGameState {
+  private readonly ui: UI;
+  private readonly listSaves: () => SaveSlotInfo[];
+  private readonly onResume: () => void;
+  private readonly onSave: (slot: string) => boolean;
+  private readonly onSettings: () => void;
+  private readonly onQuitToTitle: () => void;
+
+  private menuToken = 0;
+
+  constructor(deps: PauseSceneDeps) {
+    this.ui = deps.ui;
+    this.listSaves = deps.listSaves;
+    this.onResume = deps.onResume;
+    this.onSave = deps.onSave;
+    this.onSettings = deps.onSettings;
+    this.onQuitToTitle = deps.onQuitToTitle;
+  }
+
+  enter(): void {
+    this.ui.hideHint();
+    void this.runMenu("");
+  }
+
+  exit(): void {
+    this.menuToken += 1;
+    this.ui.hideMenu();
+  }
+
+  pause(): void {
+    this.menuToken += 1;
+  }
+
+  resume(): void {
+    void this.runMenu("");
+  }
+
+  update(): void {
+    // Input is handled by the menu; the scene underneath is frozen.
+  }
+
+  render(): void {
+    // The paused scene below renders the frame; the menu lives in the DOM overlay.
+  }
+
+  resize(): void {
+    // DOM overlay only.
+  }
+
+  private async runMenu(subtitle: string): Promise<void> {
+    const token = ++this.menuToken;
+    const picked = await this.ui.showMenu(
+      "Paused",
+      [{ text: "Resume" }, { text: "Save game" }, { text: "Settings" }, { text: "Quit to title" }],
+      subtitle
+    );
+    if (token !== this.menuToken) {
+      return;
+    }
+
+    switch (picked) {
+      case 1:
+        await this.runSaveMenu(token);
+        break;
+      case 2:
+        this.onSettings();
+        break;
+      case 3:
+        this.onQuitToTitle();
+        break;
+      default:
+        this.onResume();
+        break;
+    }
+  }
+
+  private async runSaveMenu(token: number): Promise<void> {
+    const saves = new Map(this.listSaves().map((info) => [info.slot, info]));
+    const picked = await this.ui.showMenu("Save game", [
+      ...MANUAL_SLOTS.map((slot) => {
+        const info = saves.get(slot);
+        return { text: info ? formatSaveSlot(info) : `${slot} - empty` };
+      }),
+      { text: "Back" }
+    ]);
+    if (token !== this.menuToken) {
+      return;
+    }
+
+    const slot = picked === null ? undefined : MANUAL_SLOTS[picked];
+    if (!slot) {
+      void this.runMenu("");
+      return;
+    }
+
+    void this.runMenu(this.onSave(slot) ? `Saved to ${slot}` : "Save failed");
+  }
+}
@@ -0,0 +1,173 @@
+import type { GameSettings, Settings } from "../core/Settings";
+import type { IGameState } from "../core/StateMachine";
+import type { ChoiceOption } from "../ui/ChoiceMenu";
+import type { UI } from "../ui/UI";
+
+export interface SettingsSceneDeps {
+  ui: UI;
+  settings: Settings;
+  onControls: () => void;
+  onClose: () => void;
+}
+
+// What picking a row does besides changing a value.
+type SettingsRowAction = "controls" | "back";
+
+interface SettingsRow {
+  label: (values: GameSettings) => string;
+  // Picking a row cycles its value; rows that open another screen return their action instead.
+  apply: (settings: Settings, values: GameSettings) => SettingsRowAction | void;
+}
+
+const PIXEL_SCALES = [1, 2, 3, 4, 5, 6];
+const COLOR_LEVELS = [16, 24, 32, 48, 64, 96, 256];
+const VOLUME_STEPS = [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+function cycle<T>(values: T[], current: T): T {
+  const index = values.indexOf(current);
+  return values[(index + 1) % values.length];
+}
+
+function cycleVolume(current: number): number {
+  const index = VOLUME_STEPS.findIndex((step) => step > current + 1e-3);
+  return index < 0 ? VOLUME_STEPS[0] : VOLUME_STEPS[index];
+}
+
+function onOff(value: boolean): string {
+  return value ? "on" : "off";
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+const ROWS: SettingsRow[] = [
+  {
+    label: (v) => `Pixel scale: ${v.renderer.pixelScale}`,
+    apply: (s, v) => s.update({ renderer: { pixelScale: cycle(PIXEL_SCALES, v.renderer.pixelScale) } })
+  },
+  {
+    label: (v) => `Dither: ${onOff(v.renderer.enableDither)}`,
+    apply: (s, v) => s.update({ renderer: { enableDither: !v.renderer.enableDither } })
+  },
+  {
+    label: (v) => `UV wobble: ${onOff(v.renderer.enableUvWobble)}`,
+    apply: (s, v) => s.update({ renderer: { enableUvWobble: !v.renderer.enableUvWobble } })
+  },
+  {
+    label: (v) => `Color levels: ${v.renderer.colorLevels}`,
+    apply: (s, v) => s.update({ renderer: { colorLevels: cycle(COLOR_LEVELS, v.renderer.colorLevels) } })
+  },
+  {
+    label: (v) => `Master volume: ${percent(v.volume.master)}`,
+    apply: (s, v) => s.update({ volume: { master: cycleVolume(v.volume.master) } })
+  },
+  {
+    label: (v) => `Music volume: ${percent(v.volume.music)}`,
+    apply: (s, v) => s.update({ volume: { music: cycleVolume(v.volume.music) } })
+  },
+  {
+    label: (v) => `SFX volume: ${percent(v.volume.sfx)}`,
+    apply: (s, v) => s.update({ volume: { sfx: cycleVolume(v.volume.sfx) } })
+  },
+  {
+    label: (v) => `Fullscreen: ${onOff(v.fullscreen)}`,
+    apply: (s, v) => s.update({ fullscreen: !v.fullscreen })
+  },
+  {
+    label: (v) => `Movement: ${v.movementScheme === "camera" ? "camera-relative" : "tank"}`,
+    apply: (s, v) => s.update({ movementScheme: v.movementScheme === "camera" ? "tank" : "camera" })
+  },
+  {
+    label: (v) => `Tilt to slopes: ${onOff(v.tiltToGround)}`,
+    apply: (s, v) => s.update({ tiltToGround: !v.tiltToGround })
+  },
+  {
+    label: (v) => `Village: ${v.village === "random" ? "new every game" : "classic"}`,
+    apply: (s, v) => s.update({ village: v.village === "random" ? "classic" : "random" })
+  },
+  {
+    label: () => "Controls",
+    apply: () => "controls"
+  },
+  {
+    label: () => "Reset to defaults",
+    apply: (s) => s.reset()
+  },
+  {
+    label: () => "Back",
+    apply: () => "back"
+  }
+];
+
+// Overlay state pushed from the title screen or the pause menu.
+export class SettingsScene implements IGameState {
+  private readonly ui: UI;
+  private readonly settings: Settings;
+  private readonly onControls: () => void;
+  private readonly onClose: () => void;
+
+  private menuToken = 0;
+  private selectedRow = 0;
+
+  constructor(deps: SettingsSceneDeps) {
+    this.ui = deps.ui;
+    this.settings = deps.settings;
+    this.onControls = deps.onControls;
+    this.onClose = deps.onClose;
+  }
+
+  enter(): void {
+    void this.runMenu(0);
+  }
+
+  exit(): void {
+    this.menuToken += 1;
+    this.ui.hideMenu();
+  }
+
+  pause(): void {
+    this.menuToken += 1;
+  }
+
+  resume(): void {
+    void this.runMenu(this.selectedRow);
+  }
+
+  update(): void {
+    // Input is handled by the menu.
+  }
+
+  render(): void {
+    // The state below renders the frame; the menu lives in the DOM overlay.
+  }
+
+  resize(): void {
+    // DOM overlay only.
+  }
+
+  private async runMenu(selected: number): Promise<void> {
+    const token = ++this.menuToken;
+    this.selectedRow = selected;
+    const values = this.settings.values;
+    const options: ChoiceOption[] = ROWS.map((row) => ({ text: row.label(values) }));
+
+    const picked = await this.ui.showMenu("Settings", options, "Enter / Click - change", selected);
+    if (token !== this.menuToken) {
+      return;
+    }
+
+    const action = picked === null ? "back" : ROWS[picked].apply(this.settings, values);
+    if (picked === null || action === "back") {
+      this.onClose();
+      return;
+    }
+    if (action === "controls") {
+      this.selectedRow = picked;
+      this.onControls();
+      return;
+    }
+
+    void this.runMenu(picked);
+  }
+}
@@ -0,0 +1,164 @@
+import {
+  AmbientLight,
+  Color,
+  DirectionalLight,
+  Group,
+  Object3D,
+  PerspectiveCamera,
+  Scene
+} from "three";
+import type { Assets } from "../core/Assets";
+import type { SaveSlotInfo } from "../core/SaveSystem";
+import type { IGameState } from "../core/StateMachine";
+import type { UI } from "../ui/UI";
+import { createKittyPlaceholder } from "../utils/Placeholders";
+
+export interface TitleSceneDeps {
+  assets: Assets;
+  ui: UI;
+  renderHook: (scene: Scene, camera: PerspectiveCamera, deltaSeconds: number) => void;
+  listSaves: () => SaveSlotInfo[];
+  onNewGame: () => void;
+  onContinue: (slot: string) => void;
+  onSettings: () => void;
+}
+
+const KITTY_PATH = "/assets/models/kitty.glb";
+
+export function formatSaveSlot(info: SaveSlotInfo): string {
+  return `${info.slot} - ${new Date(info.savedAt).toLocaleString()}`;
+}
+
+export class TitleScene implements IGameState {
+  private readonly assets: Assets;
+  private readonly ui: UI;
+  private readonly renderHook: TitleSceneDeps["renderHook"];
+  private readonly listSaves: () => SaveSlotInfo[];
+  private readonly onNewGame: () => void;
+  private readonly onContinue: (slot: string) => void;
+  private readonly onSettings: () => void;
+
+  private readonly scene = new Scene();
+  private readonly camera = new PerspectiveCamera(50, 16 / 9, 0.1, 50);
+  private turntable: Object3D = new Group();
+
+  private initialized = false;
+  // Bumped on exit so a menu promise resolving late is ignored.
+  private menuToken = 0;
+
+  constructor(deps: TitleSceneDeps) {
+    this.assets = deps.assets;
+    this.ui = deps.ui;
+    this.renderHook = deps.renderHook;
+    this.listSaves = deps.listSaves;
+    this.onNewGame = deps.onNewGame;
+    this.onContinue = deps.onContinue;
+    this.onSettings = deps.onSettings;
+
+    this.scene.background = new Color("#f0b4d3");
+    this.camera.position.set(0, 1.4, 4.2);
+    this.camera.lookAt(0, 0.9, 0);
+  }
+
+  async enter(): Promise<void> {
+    if (!this.initialized) {
+      await this.buildScene();
+      this.initialized = true;
+    }
+
+    this.ui.hideDialogue();
+    this.ui.hideHint();
+    void this.runMenu();
+  }
+
+  exit(): void {
+    this.menuToken += 1;
+    this.ui.hideMenu();
+  }
+
+  pause(): void {
+    this.menuToken += 1;
+  }
+
+  resume(): void {
+    void this.runMenu();
+  }
+
+  update(deltaSeconds: number): void {
+    this.turntable.rotation.y += deltaSeconds * 0.6;
+  }
+
+  render(deltaSeconds: number): void {
+    this.renderHook(this.scene, this.camera, deltaSeconds);
+  }
+
+  resize(width: number, height: number): void {
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+  }
+
+  private async buildScene(): Promise<void> {
+    const ambient = new AmbientLight(0xffcfe3, 1.1);
+    const key = new DirectionalLight(0xfff0fa, 1.4);
+    key.position.set(3, 5, 4);
+    this.scene.add(ambient, key);
+
+    const kitty = await this.assets.instantiateModel(KITTY_PATH, () => createKittyPlaceholder("#fff4be"));
+    const visual = kitty.root;
+    visual.rotation.y += Number(visual.userData.visualYawOffset ?? 0);
+    visual.position.y += Number(visual.userData.groundOffsetY ?? 0);
+
+    this.turntable = new Group();
+    this.turntable.add(visual);
+    this.scene.add(this.turntable);
+  }
+
+  private async runMenu(): Promise<void> {
+    const token = ++this.menuToken;
+    const saves = this.listSaves();
+
+    const picked = await this.ui.showMenu(
+      "Masha Game",
+      [
+        { text: "New Game" },
+        { text: "Continue", disabled: saves.length === 0, disabledReason: "no saves yet" },
+        { text: "Settings" }
+      ],
+      "Happy birthday, Masha!"
+    );
+    if (token !== this.menuToken) {
+      return;
+    }
+
+    if (picked === 0) {
+      this.ui.hideMenu();
+      this.onNewGame();
+      return;
+    }
+
+    if (picked === 1) {
+      await this.runContinueMenu(token, saves);
+      return;
+    }
+
+    if (picked === 2) {
+      this.onSettings();
+    }
+  }
+
+  private async runContinueMenu(token: number, saves: SaveSlotInfo[]): Promise<void> {
+    const picked = await this.ui.showMenu("Continue", [...saves.map((info) => ({ text: formatSaveSlot(info) })), { text: "Back" }]);
+    if (token !== this.menuToken) {
+      return;
+    }
+
+    const slot = picked === null ? undefined : saves[picked];
+    if (!slot) {
+      void this.runMenu();
+      return;
+    }
+
+    this.ui.hideMenu();
+    this.onContinue(slot.slot);
+  }
+}
@@ -10,6 +10,7 @@
   DirectionalLight,
   Group,
   HemisphereLight,
+  Material,
   MathUtils,
   Mesh,
   MeshBasicMaterial,
@@ -17,108 +18,296 @@
   Object3D,
   PlaneGeometry,
   PerspectiveCamera,
+  Quaternion,
   Raycaster,
   Scene,
+  Vector2,
   Vector3
 } from "three";
 import type { Assets } from "../core/Assets";
+import { CutsceneHost, CutscenePlayer, playAnimationClip } from "../core/Cutscene";
+import {
+  areDialogueConditionsMet,
+  DialogueAction,
+  DialogueGraph,
+  DialogueRunner,
+  DialogueView,
+  runDialogueActions
+} from "../core/Dialogue";
+import type { GameFlags } from "../core/GameFlags";
 import type { Input } from "../core/Input";
+import { getItemDefinition, Inventory, ITEMS } from "../core/Inventory";
+import type { LevelData, LevelEntity, LevelScriptAction, LevelTrigger, LevelVector } from "../core/Level";
+import type { MovementScheme } from "../core/Settings";
 import type { IGameState } from "../core/StateMachine";
-import type { DialogueLine, UI } from "../ui/UI";
+import { isTransitionEffectName, TransitionEffect, TransitionEffectName } from "../render/Transitions";
+import type { UI } from "../ui/UI";
 import {
+  createBalloonPlaceholder,
+  createFriendPlaceholder,
+  createGiftPlaceholder,
   createHousePlaceholder,
   createKittyPlaceholder,
   createLandscapePlaceholder,
-  createNpcGirlPlaceholder
+  createNpcGirlPlaceholder,
+  createStrawberryPlaceholder
 } from "../utils/Placeholders";
-import { getBaseTerrainHeight, getHillVisualBaseY, sampleWorldTerrainHeight, WORLD_HILLS } from "../utils/Terrain";
+import { Collider, colliderFromObject, CollisionWorld } from "../utils/Collision";
+import { Heightfield } from "../utils/Heightfield";
+import { NpcController, NpcHost } from "../utils/NpcController";
+import { TriggerEvent, TriggerVolumes } from "../utils/Triggers";
+import {
+  getBaseTerrainHeight,
+  getHillVisualBaseY,
+  getSlopeAngle,
+  sampleWorldTerrainHeight,
+  sampleWorldTerrainNormal
+} from "../utils/Terrain";
+import {
+  createLevelFromLayout,
+  DEFAULT_WORLD_LAYOUT,
+  generateWorldLayout,
+  ROAD_TILE_LENGTH
+} from "../utils/WorldLayout";
 
 export interface WorldSceneDeps {
   assets: Assets;
   input: Input;
   ui: UI;
   audioListener: AudioListener;
+  flags: GameFlags;
+  inventory: Inventory;
   renderHook: (scene: Scene, camera: PerspectiveCamera, deltaSeconds: number) => void;
-  onDialogueFinished: () => void;
+  onDialogueTransition: (target: string, effect: TransitionEffect) => void;
   onDialogueGesture: () => void;
 }
 
 const MODEL_PATHS = {
-  kitty: "/assets/models/kitty.glb",
-  worldLandscape: "/assets/models/world_landscape.glb",
-  houseA: "/assets/models/custom/zamok/castle.obj",
-  houseB: "/assets/models/custom/zamok/castle.obj",
-  npcGirl: "/assets/models/custom/masha/masha.obj"
+  kitty: "/assets/models/kitty.glb"
+};
+
+const LEVEL_PATHS = {
+  village: "/assets/levels/village.json"
 };
 
-const DIALOGUE: DialogueLine[] = [
-  { speaker: "Хеллоу Китти", text: "Маша, привет! Я узнала, что у тебя сегодня день рождения! Поздравляю!" },
-  { speaker: "Маша", text: "О, хеллоу китти, спасибо! Ты очень крутая!" },
-  { speaker: "Хеллоу Китти", text: "Маша, это ты очень крутая! Ты будешь со мной дружить?" },
-  { speaker: "Маша", text: "Конечно, Хеллоу Китти! Идем тусить с нами на мое др!" }
-];
+// Built-in copy of the hand-made village, used when the level file is missing or malformed.
+const FALLBACK_LEVEL = createLevelFromLayout(DEFAULT_WORLD_LAYOUT);
+
+// Level entities name one of these to stand in for a missing model.
+const PLACEHOLDERS: Record<string, () => Object3D> = {
+  landscape: () => createLandscapePlaceholder(),
+  houseA: () => createHousePlaceholder(0),
+  houseB: () => createHousePlaceholder(1),
+  npcGirl: () => createNpcGirlPlaceholder(),
+  friend: () => createFriendPlaceholder("#9fd4ff", "friend"),
+  gift: () => createGiftPlaceholder(ITEMS.gift.color),
+  balloon: () => createBalloonPlaceholder(ITEMS.balloon.color),
+  strawberry: () => createStrawberryPlaceholder()
+};
+
+const WORLD_MUSIC_GAIN = 0.5;
+
+const PLAYER_RADIUS = 0.45;
+const DEFAULT_INTERACT_RADIUS = 2.1;
+const DEFAULT_INTERACT_PROMPT = "talk";
+// How far from the kitty a walking character stops to talk.
+const TALK_DISTANCE = 1.5;
+// cos of the half-angle that counts as "in front"; targets behind her lose to any in front within reach.
+const INTERACT_FRONT_DOT = 0.2;
+const FACING_AWAY_PENALTY = 100;
+// Pickups hover and spin in place and are collected by walking into them.
+const PICKUP_RADIUS = 0.9;
+const PICKUP_HOVER = 0.25;
+const PICKUP_BOB = 0.1;
+const PICKUP_SPIN = 1.6;
+// Collected pickups stay gone: `picked_<entity id>` is set when one is taken.
+const PICKED_FLAG_PREFIX = "picked_";
+// Triggers marked `once` set `triggered_<trigger id>` when they fire.
+const TRIGGERED_FLAG_PREFIX = "triggered_";
+// Scripted camera shots: how long one holds by default and how long the view takes to come back.
+const DEFAULT_SHOT_SECONDS = 2.5;
+const SHOT_RELEASE_SECONDS = 0.8;
+// The ground heightfield covers the level's walkable limits plus this margin.
+const GROUND_MARGIN = 3;
+const GROUND_CELL_SIZE = 0.25;
+// Steeper ground can't be walked up; much steeper ground slides the kitty back down.
+const MAX_WALKABLE_SLOPE = MathUtils.degToRad(34);
+const SLIDE_SLOPE = MathUtils.degToRad(48);
+const SLIDE_SPEED = 3.2;
+// Visual lean toward the ground normal, capped so the kitty never lies on its side.
+const MAX_VISUAL_TILT = MathUtils.degToRad(22);
+const TILT_RATE = 10;
+// Camera-relative scheme: how fast the kitty turns toward the stick and the camera orbits.
+const FACING_TURN_RATE = 10;
+const CAMERA_ORBIT_SPEED = 2.2;
+const CAMERA_DRAG_SPEED = 0.006;
+
+interface SpawnedEntity {
+  entity: LevelEntity;
+  object: Object3D;
+  clips: AnimationClip[];
+  colliderId: number | null;
+  // Collider as measured at placement and where the object stood then; walkers drag it along.
+  collider: Collider | null;
+  placedAt: Vector2;
+  controller: NpcController | null;
+}
+
+interface Interactable {
+  id: string;
+  object: Object3D;
+  radius: number;
+  prompt: string;
+  dialogue: DialogueGraph;
+  materials: MeshLambertMaterial[];
+}
+
+interface Pickup {
+  spawned: SpawnedEntity;
+  item: string;
+  materials: MeshLambertMaterial[];
+  phase: number;
+}
+
+interface AnimatedModel {
+  mixer: AnimationMixer;
+  clips: AnimationClip[];
+}
+
+interface CameraShot {
+  position: Vector3;
+  lookAt: Vector3;
+  remaining: number;
+}
+
+interface WorldSaveData {
+  // Missing when the kitty has no place yet (the village was never entered).
+  player?: { x: number; z: number; rotY: number };
+  // Generated village seed; missing or null for the hand-made one.
+  seed?: number | null;
+}
+
+const IDENTITY_QUATERNION = new Quaternion();
 
 export class WorldScene implements IGameState {
   private readonly assets: Assets;
   private readonly input: Input;
   private readonly ui: UI;
   private readonly listener: AudioListener;
+  private readonly flags: GameFlags;
+  private readonly inventory: Inventory;
   private readonly renderHook: WorldSceneDeps["renderHook"];
-  private readonly onDialogueFinished: () => void;
+  private readonly onDialogueTransition: WorldSceneDeps["onDialogueTransition"];
   private readonly onDialogueGesture: () => void;
 
   private readonly scene = new Scene();
   private readonly camera = new PerspectiveCamera(60, 16 / 9, 0.1, 200);
 
   private initialized = false;
+  private level: LevelData = FALLBACK_LEVEL;
+  // Seed the current level was generated from; null for the level file.
+  private levelSeed: number | null = null;
+  // Village to build on the next enter(); a change rebuilds the scene.
+  private layoutSeed: number | null = null;
   private player: Object3D = new Group();
   private playerVisual: Object3D = new Group();
-  private npc: Object3D = new Group();
-  private npcMaterials: MeshLambertMaterial[] = [];
-  private readonly mixers: AnimationMixer[] = [];
+  private readonly interactables: Interactable[] = [];
+  // Closest interactable in reach, kept while its conversation runs.
+  private interactionTarget: Interactable | null = null;
+  // Walking character coming over to talk; the kitty waits for it.
+  private approaching: Interactable | null = null;
+  private readonly pickups: Pickup[] = [];
+  private pickupTime = 0;
+  private readonly triggerVolumes = new TriggerVolumes();
+  // Triggers whose enter actions ran this visit; only these run their stay and exit actions.
+  private readonly activeTriggers = new Set<string>();
+  // Set by trigger scripts; shown whenever no interaction prompt needs the hint line.
+  private triggerHint: string | null = null;
+  private cameraShot: CameraShot | null = null;
+  private cutscene: CutscenePlayer | null = null;
+  private readonly cutsceneHost: CutsceneHost;
+  // 0..1 while the view eases back from a finished shot.
+  private shotRelease = 1;
+  private readonly shotLook = new Vector3();
+  // Model roots with animation clips; the first clip loops from the start.
+  private readonly animated = new Map<Object3D, AnimatedModel>();
   private readonly riverTiles: Mesh[] = [];
+  // Meshes built from `level.terrain`, replaced as a whole when the editor changes it.
+  private readonly terrainMeshes: Mesh[] = [];
+  private readonly entities = new Map<string, SpawnedEntity>();
+  private viewCamera: PerspectiveCamera | null = null;
+  private readonly collisions = new CollisionWorld();
   private riverTime = 0;
   private worldMusic: Audio | null = null;
+  private musicVolume = 1;
+  private sfxVolume = 1;
   private audioUnlocked = false;
 
   private readonly cameraOffset = new Vector3(0, 3.2, 6.1);
   private readonly lookOffset = new Vector3(0, 1.2, 0);
 
-  private inDialogue = false;
-  private dialogueIndex = 0;
-
-  private readonly groundRay = new Raycaster();
-  private readonly groundRayOrigin = new Vector3();
-  private readonly groundRayDirection = new Vector3(0, -1, 0);
-  private readonly groundSurfaces: Object3D[] = [];
+  private dialogue: DialogueRunner | null = null;
+  private pendingTransition: { target: string; effect: TransitionEffectName } | null = null;
+  private restoredPlayer: WorldSaveData["player"] | null = null;
+  // Set from deserialize() until the next enter() applies it; saves in between keep the restored data.
+  private restorePending = false;
+  private movementScheme: MovementScheme = "tank";
+  // Orbit angle around the kitty in camera-relative mode (same convention as rotation.y).
+  private cameraYaw = 0;
+
+  private heightfield: Heightfield | null = null;
+  private groundTilt = true;
+  private readonly moveStart = new Vector3();
+  private readonly groundNormal = new Vector3();
+  private readonly playerVisualRest = new Quaternion();
+  private readonly tiltCurrent = new Quaternion();
+  private readonly tiltTarget = new Quaternion();
+  private readonly playerYaw = new Quaternion();
   private readonly desiredCamPos = new Vector3();
   private readonly lookAtPos = new Vector3();
   private readonly camForward = new Vector3();
   private readonly camRight = new Vector3();
   private readonly worldUp = new Vector3(0, 1, 0);
+  private readonly screenPoint = new Vector3();
 
   constructor(deps: WorldSceneDeps) {
     this.assets = deps.assets;
     this.input = deps.input;
     this.ui = deps.ui;
     this.listener = deps.audioListener;
+    this.flags = deps.flags;
+    this.inventory = deps.inventory;
     this.renderHook = deps.renderHook;
-    this.onDialogueFinished = deps.onDialogueFinished;
+    this.onDialogueTransition = deps.onDialogueTransition;
     this.onDialogueGesture = deps.onDialogueGesture;
 
     this.scene.background = new Color("#f0b4d3");
     this.camera.position.set(0, 3, -6);
+
+    this.cutsceneHost = {
+      ui: this.ui,
+      input: this.input,
+      camera: this.camera,
+      getTarget: (name) => (name === "player" ? this.player : this.getEntityObject(name)),
+      playAnimation: (target, clip, loop) =>
+        this.playAnimation(target === "player" ? this.playerVisual : this.getEntityObject(target), clip, loop),
+      playSound: (path, volume) => void this.playSound(path, volume)
+    };
   }
 
   async enter(): Promise<void> {
-    if (!this.initialized) {
+    if (!this.initialized || this.levelSeed !== this.layoutSeed) {
+      this.levelSeed = this.layoutSeed;
+      this.level = await this.loadLevel(this.layoutSeed);
       await this.buildScene();
       this.initialized = true;
     }
 
     this.reset();
+    this.syncPickups();
     this.ui.hideDialogue();
     this.ui.hideHint();
+    this.ui.setTouchControlsEnabled(true);
 
     if (!this.camera.children.includes(this.listener)) {
       this.camera.add(this.listener);
@@ -127,33 +316,54 @@ export class WorldScene implements IGameState {
   }
 
   exit(): void {
+    this.cutscene?.skip();
+    this.cutscene = null;
     this.ui.hideDialogue();
     this.ui.hideHint();
+    this.ui.setTouchControlsEnabled(false);
     if (this.worldMusic?.isPlaying) {
       this.worldMusic.stop();
     }
   }
 
+  pause(): void {
+    if (this.worldMusic?.isPlaying) {
+      this.worldMusic.pause();
+    }
+  }
+
+  resume(): void {
+    this.tryStartMusic();
+  }
+
   update(deltaSeconds: number): void {
-    for (const mixer of this.mixers) {
+    for (const { mixer } of this.animated.values()) {
       mixer.update(deltaSeconds);
     }
 
-    if (this.inDialogue) {
+    if (this.cutscene) {
+      this.updateCutscene(this.cutscene, deltaSeconds);
+    } else if (this.dialogue) {
       this.handleDialogueInput();
-    } else {
+    } else if (!this.approaching && !this.cameraShot) {
       this.handleMovement(deltaSeconds);
+      this.collectPickups();
+      this.updateTriggers(deltaSeconds);
+      this.updateInteractionTarget();
       this.handleInteraction();
     }
+    this.updateNpcs(deltaSeconds);
+    this.updatePickups(deltaSeconds);
 
-    this.snapPlayerToGround(deltaSeconds);
+    this.snapToGround(this.player, deltaSeconds);
+    this.updatePlayerTilt(deltaSeconds);
     this.updateRiver(deltaSeconds);
-    this.updateNpcHighlight();
+    this.updateInteractableHighlight();
     this.updateCamera(deltaSeconds);
   }
 
   render(deltaSeconds: number): void {
-    this.renderHook(this.scene, this.camera, deltaSeconds);
+    this.renderHook(this.scene, this.viewCamera ?? this.camera, deltaSeconds);
   }
 
   resize(width: number, height: number): void {
@@ -166,8 +376,192 @@ export class WorldScene implements IGameState {
     this.tryStartMusic();
   }
 
+  setMovementScheme(scheme: MovementScheme): void {
+    if (scheme === "camera" && this.movementScheme !== "camera") {
+      // Start orbiting from where the follow camera currently is.
+      this.cameraYaw = this.player.rotation.y;
+    }
+    this.movementScheme = scheme;
+  }
+
+  // null builds the hand-made village; a number generates one. Applied on the next enter().
+  setLayoutSeed(seed: number | null): void {
+    this.layoutSeed = seed;
+  }
+
+  // Level editor hooks: the editor changes `getLevel()` in place and calls these to show the result.
+  getLevel(): LevelData {
+    return this.level;
+  }
+
+  getScene(): Scene {
+    return this.scene;
+  }
+
+  getPlayerPosition(out: Vector3): Vector3 {
+    return out.copy(this.player.position);
+  }
+
+  // Renders through `camera` instead of the follow camera; null switches back.
+  setViewCamera(camera: PerspectiveCamera | null): void {
+    this.viewCamera = camera;
+  }
+
+  getEntityObject(id: string): Object3D | null {
+    return this.entities.get(id)?.object ?? null;
+  }
+
+  // Id of the nearest non-ground entity under the ray.
+  pickEntity(raycaster: Raycaster): string | null {
+    const pickable = [...this.entities.values()]
+      .filter(({ entity }) => !entity.tags?.includes("ground"))
+      .map(({ object }) => object);
+    for (const hit of raycaster.intersectObjects(pickable, true)) {
+      let node: Object3D | null = hit.object;
+      while (node && node.userData.levelEntityId === undefined) {
+        node = node.parent;
+      }
+      if (node) {
+        return String(node.userData.levelEntityId);
+      }
+    }
+    return null;
+  }
+
+  // Where the ray meets the ground meshes (landscape, road, hills, river).
+  pickGround(raycaster: Raycaster, out: Vector3): boolean {
+    const ground = [...this.entities.values()]
+      .filter(({ entity }) => entity.tags?.includes("ground"))
+      .map(({ object }) => object);
+    const hit = raycaster.intersectObjects([...ground, ...this.terrainMeshes], true)[0];
+    if (!hit) {
+      return false;
+    }
+    out.copy(hit.point);
+    return true;
+  }
+
+  async addEntity(entity: LevelEntity): Promise<void> {
+    const spawned = await this.spawnEntity(entity);
+    this.addSpawnedEntity(spawned);
+    this.setupAnimation(spawned.object, spawned.clips);
+    await this.addInteractable(spawned);
+  }
+
+  removeEntity(id: string): void {
+    const spawned = this.entities.get(id);
+    if (!spawned) {
+      return;
+    }
+    this.entities.delete(id);
+    this.scene.remove(spawned.object);
+    this.animated.delete(spawned.object);
+    // Cleared before the errand settles, so its walkTo() callback doesn't start the conversation.
+    if (this.approaching?.id === id) {
+      this.approaching = null;
+    }
+    if (this.interactionTarget?.id === id) {
+      this.interactionTarget = null;
+      this.ui.hideHint();
+    }
+    spawned.controller?.cancelErrand();
+    if (spawned.colliderId !== null) {
+      this.collisions.remove(spawned.colliderId);
+    }
+    const index = this.interactables.findIndex((interactable) => interactable.id === id);
+    if (index >= 0) {
+      this.interactables.splice(index, 1);
+    }
+    const pickupIndex = this.pickups.findIndex((pickup) => pickup.spawned === spawned);
+    if (pickupIndex >= 0) {
+      this.pickups.splice(pickupIndex, 1);
+    }
+  }
+
+  // Re-applies an entity's transform and collider after its level data changed.
+  refreshEntity(id: string): void {
+    const spawned = this.entities.get(id);
+    if (spawned) {
+      this.placeEntity(spawned);
+    }
+  }
+
+  // Rebuilds road, hills, river and the baked ground after `level.terrain` changed,
+  // and sets everything standing on the terrain back onto it.
+  rebuildTerrain(): void {
+    for (const mesh of this.terrainMeshes) {
+      this.scene.remove(mesh);
+      mesh.geometry.dispose();
+    }
+    this.terrainMeshes.length = 0;
+
+    this.collisions.clear();
+    for (const spawned of this.entities.values()) {
+      spawned.colliderId = null;
+      this.placeEntity(spawned);
+    }
+    this.buildTerrain();
+    this.snapToGround(this.player, 1);
+  }
+
+  setGroundTilt(enabled: boolean): void {
+    this.groundTilt = enabled;
+  }
+
+  setMusicVolume(volume: number): void {
+    this.musicVolume = volume;
+    this.worldMusic?.setVolume(WORLD_MUSIC_GAIN * volume);
+  }
+
+  setSfxVolume(volume: number): void {
+    this.sfxVolume = volume;
+  }
+
+  serialize(): WorldSaveData {
+    if (this.restorePending) {
+      return { player: this.restoredPlayer ?? undefined, seed: this.layoutSeed };
+    }
+    return {
+      player: {
+        x: this.player.position.x,
+        z: this.player.position.z,
+        rotY: this.player.rotation.y
+      },
+      seed: this.levelSeed
+    };
+  }
+
+  // Applied on the next enter(); the scene always starts from a clean reset otherwise.
+  deserialize(data: unknown): void {
+    this.restorePending = true;
+    const seed = (data as Partial<WorldSaveData> | null)?.seed;
+    this.layoutSeed = typeof seed === "number" && Number.isFinite(seed) ? seed : null;
+
+    const player = (data as Partial<WorldSaveData> | null)?.player;
+    if (!player || !Number.isFinite(player.x) || !Number.isFinite(player.z) || !Number.isFinite(player.rotY)) {
+      this.restoredPlayer = null;
+      return;
+    }
+    this.restoredPlayer = { x: player.x, z: player.z, rotY: player.rotY };
+  }
+
+  private async loadLevel(seed: number | null): Promise<LevelData> {
+    if (seed !== null) {
+      return createLevelFromLayout(generateWorldLayout(seed));
+    }
+    return (await this.assets.loadLevel(LEVEL_PATHS.village)) ?? FALLBACK_LEVEL;
+  }
+
   private async buildScene(): Promise<void> {
     this.scene.clear();
+    this.animated.clear();
+    this.heightfield = null;
+    this.collisions.clear();
+    this.entities.clear();
+    this.pickups.length = 0;
+    this.terrainMeshes.length = 0;
+    const level = this.level;
+    this.triggerVolumes.set(level.triggers);
 
     const ambient = new AmbientLight(0xffcfe3, 0.92);
     const hemisphere = new HemisphereLight(0xffd7ef, 0xe8a7c8, 0.52);
@@ -175,12 +569,9 @@ export class WorldScene implements IGameState {
     directional.position.set(7, 12, -4);
     this.scene.add(ambient, hemisphere, directional);
 
-    const [kitty, npc, worldLandscape, houseA, houseB] = await Promise.all([
+    const [kitty, ...entities] = await Promise.all([
       this.assets.instantiateModel(MODEL_PATHS.kitty, () => createKittyPlaceholder("#fff4be")),
-      this.assets.instantiateModel(MODEL_PATHS.npcGirl, () => createNpcGirlPlaceholder()),
-      this.assets.instantiateModel(MODEL_PATHS.worldLandscape, () => createLandscapePlaceholder()),
-      this.assets.instantiateModel(MODEL_PATHS.houseA, () => createHousePlaceholder(0)),
-      this.assets.instantiateModel(MODEL_PATHS.houseB, () => createHousePlaceholder(1))
+      ...level.entities.map((entity) => this.spawnEntity(entity))
     ]);
 
     this.player = kitty.root;
@@ -189,73 +580,146 @@ export class WorldScene implements IGameState {
     const groundOffsetY = Number(this.playerVisual.userData.groundOffsetY ?? 0);
     this.playerVisual.rotation.y += visualYawOffset;
     this.playerVisual.position.y += groundOffsetY;
+    this.playerVisualRest.copy(this.playerVisual.quaternion);
 
     const playerRoot = new Group();
     playerRoot.add(this.playerVisual);
     this.player = playerRoot;
-    this.player.position.set(0, sampleWorldTerrainHeight(0, 8), 8);
-
-    this.npc = npc.root;
-    this.npc.position.set(1.6, sampleWorldTerrainHeight(1.6, 3.2) + this.getGroundLift(this.npc), 3.2);
-    const roadFocus = new Vector3(0, this.npc.position.y, 4.6);
-    this.npc.lookAt(roadFocus);
-    this.npc.rotateY(Math.PI);
-
-    worldLandscape.root.position.set(0, 0, 0);
-    worldLandscape.root.scale.setScalar(1.35);
-
-    const houseTemplates = [houseA.root, houseB.root];
-    const houseLayout = [
-      { x: 4.5, z: -3.6, rot: 0.1, variant: 0, scale: 3.4 },
-      { x: -4.2, z: -5.0, rot: -0.25, variant: 1, scale: 3.8 },
-      { x: 9.4, z: -8.4, rot: 0.35, variant: 1, scale: 4.1 },
-      { x: -10.2, z: -9.2, rot: -0.35, variant: 0, scale: 3.6 },
-      { x: 12.5, z: -0.9, rot: -0.2, variant: 0, scale: 4.5 },
-      { x: -13.4, z: -1.6, rot: 0.25, variant: 1, scale: 3.9 },
-      { x: 15.1, z: 6.5, rot: 0.4, variant: 0, scale: 4.8 },
-      { x: -15.0, z: 5.6, rot: -0.45, variant: 1, scale: 4.2 },
-      { x: 7.8, z: -16.5, rot: 0.18, variant: 0, scale: 3.7 },
-      { x: -8.1, z: -17.4, rot: -0.22, variant: 1, scale: 4.4 },
-      { x: 2.6, z: -22.2, rot: 0.15, variant: 1, scale: 4.9 },
-      { x: -3.6, z: -23.0, rot: -0.18, variant: 0, scale: 4.0 }
-    ];
-
-    const houses: Object3D[] = [];
-    for (const slot of houseLayout) {
-      const template = houseTemplates[slot.variant % houseTemplates.length];
-      const house = template.clone(true);
-      house.scale.setScalar(slot.scale);
-      house.position.set(slot.x, sampleWorldTerrainHeight(slot.x, slot.z) + this.getGroundLift(house), slot.z);
-      house.rotation.y = slot.rot;
-      houses.push(house);
-    }
-
-    this.scene.add(worldLandscape.root, ...houses, this.npc, this.player);
-
-    this.groundSurfaces.length = 0;
-    this.groundSurfaces.push(worldLandscape.root);
+    const spawn = level.spawns.player;
+    this.player.position.set(spawn.x, this.sampleTerrainHeight(spawn.x, spawn.z), spawn.z);
+
+    for (const spawned of entities) {
+      this.addSpawnedEntity(spawned);
+    }
+    this.scene.add(this.player);
+
+    this.interactables.length = 0;
+    this.interactionTarget = null;
+    await Promise.all(entities.map((spawned) => this.addInteractable(spawned)));
+
+    this.buildTerrain();
+    this.snapToGround(this.player, 1);
+
+    this.setupAnimation(this.playerVisual, kitty.clips);
+    for (const { object, clips } of entities) {
+      this.setupAnimation(object, clips);
+    }
+    await Promise.all([this.setupMusic(), this.preloadCutscenes()]);
+  }
+
+  // Loads an entity's model, or its named placeholder when the model is missing.
+  private async spawnEntity(entity: LevelEntity): Promise<SpawnedEntity> {
+    const placeholder = entity.placeholder ? PLACEHOLDERS[entity.placeholder] : undefined;
+    if (entity.placeholder && !placeholder) {
+      // eslint-disable-next-line no-console
+      console.warn(`[WorldScene] Unknown placeholder '${entity.placeholder}' for entity '${entity.id}'.`);
+    }
+    const instance = await this.assets.instantiateModel(entity.model, placeholder ?? (() => new Group()));
+    const object = instance.root;
+    object.name = entity.id;
+    object.userData.levelEntityId = entity.id;
+    return {
+      entity,
+      object,
+      clips: instance.clips,
+      colliderId: null,
+      collider: null,
+      placedAt: new Vector2(),
+      controller: null
+    };
+  }
+
+  private addSpawnedEntity(spawned: SpawnedEntity): void {
+    this.entities.set(spawned.entity.id, spawned);
+    this.scene.add(spawned.object);
+    this.placeEntity(spawned);
+
+    const behavior = spawned.entity.behavior;
+    if (behavior) {
+      const host: NpcHost = {
+        snapToGround: (object, deltaSeconds) => this.snapToGround(object, deltaSeconds),
+        resolveCollisions: (position, radius) => this.collisions.resolve(position, radius, spawned.colliderId)
+      };
+      spawned.controller = new NpcController(spawned.object, behavior, host, this.level.terrain.road);
+    }
+    if (spawned.entity.item) {
+      this.addPickup(spawned, spawned.entity.item);
+    }
+  }
+
+  // Applies the level transform and collider; without an explicit height the model is set on the terrain.
+  private placeEntity(spawned: SpawnedEntity): void {
+    const { entity, object } = spawned;
+    const scale = entity.scale ?? 1;
+    if (typeof scale === "number") {
+      object.scale.setScalar(scale);
+    } else {
+      object.scale.set(scale.x, scale.y, scale.z);
+    }
+    object.rotation.y = entity.rotY ?? 0;
+
+    const { x, y, z } = entity.position;
+    object.position.set(x, y ?? this.sampleTerrainHeight(x, z) + this.getGroundLift(object), z);
+
+    const collider = entity.collider ? colliderFromObject(object, { kind: entity.collider }) : null;
+    spawned.collider = collider;
+    spawned.placedAt.set(object.position.x, object.position.z);
+    spawned.controller?.resetHome();
+    if (spawned.colliderId !== null && collider) {
+      this.collisions.set(spawned.colliderId, collider);
+    } else if (spawned.colliderId !== null) {
+      this.collisions.remove(spawned.colliderId);
+      spawned.colliderId = null;
+    } else if (collider) {
+      spawned.colliderId = this.collisions.add(collider);
+    }
+  }
+
+  // Moves a walker's collider along with it. Turning is ignored: characters use circles.
+  private syncCollider(spawned: SpawnedEntity): void {
+    const { collider, colliderId, object, placedAt } = spawned;
+    if (!collider || colliderId === null) {
+      return;
+    }
+    this.collisions.set(colliderId, {
+      ...collider,
+      x: collider.x + object.position.x - placedAt.x,
+      z: collider.z + object.position.z - placedAt.y
+    });
+  }
+
+  // Road, hills and river, then the heightfield baked from them and the "ground" entities.
+  private buildTerrain(): void {
     const roadTiles = this.buildRoad();
     const hills = this.buildHills();
     this.buildRiver();
-    this.groundSurfaces.push(...roadTiles, ...hills);
-
-    this.snapPlayerToGround(1);
-    this.collectNpcMaterials();
 
-    this.setupAnimation(this.playerVisual, kitty.clips);
-    this.setupAnimation(npc.root, npc.clips);
-    await this.setupMusic();
+    const groundSurfaces = [...this.entities.values()]
+      .filter(({ entity }) => entity.tags?.includes("ground"))
+      .map(({ object }) => object);
+    const limits = this.level.terrain.limits;
+    this.heightfield = Heightfield.bake(
+      [...groundSurfaces, ...roadTiles, ...hills],
+      {
+        minX: limits.minX - GROUND_MARGIN,
+        maxX: limits.maxX + GROUND_MARGIN,
+        minZ: limits.minZ - GROUND_MARGIN,
+        maxZ: limits.maxZ + GROUND_MARGIN
+      },
+      GROUND_CELL_SIZE,
+      (x, z) => this.sampleTerrainHeight(x, z)
+    );
   }
 
   private buildRoad(): Object3D[] {
     const roadTiles: Object3D[] = [];
     const roadMat = new MeshLambertMaterial({ color: "#74686a", flatShading: true });
-    for (let i = 0; i < 16; i += 1) {
-      const tile = new Mesh(new BoxGeometry(1.7, 0.03, 2.1), roadMat);
-      const tileX = 0.5 * Math.sin(i * 0.48);
-      const tileZ = 9.5 - i * 2.15;
-      tile.position.set(tileX, sampleWorldTerrainHeight(tileX, tileZ) + 0.02, tileZ);
+    for (const slot of this.level.terrain.road) {
+      const tile = new Mesh(new BoxGeometry(1.7, 0.03, ROAD_TILE_LENGTH), roadMat);
+      tile.position.set(slot.x, this.sampleTerrainHeight(slot.x, slot.z) + 0.02, slot.z);
+      tile.rotation.y = slot.rotY;
       this.scene.add(tile);
+      this.terrainMeshes.push(tile);
       roadTiles.push(tile);
     }
     return roadTiles;
@@ -266,12 +730,13 @@ export class WorldScene implements IGameState {
     const hillMat = new MeshLambertMaterial({ color: "#c07ab0", flatShading: true });
     const hillGeo = new DodecahedronGeometry(1, 0);
 
-    for (const hill of WORLD_HILLS) {
+    for (const hill of this.level.terrain.hills) {
       const mound = new Mesh(hillGeo, hillMat);
       mound.position.set(hill.x, getBaseTerrainHeight(hill.x, hill.z) + getHillVisualBaseY(hill.sy), hill.z);
       mound.scale.set(hill.sx, hill.sy, hill.sz);
       mound.rotation.y = (hill.x + hill.z) * 0.03;
       this.scene.add(mound);
+      this.terrainMeshes.push(mound);
       hills.push(mound);
     }
     return hills;
@@ -287,48 +752,109 @@ export class WorldScene implements IGameState {
     });
     const bankMat = new MeshLambertMaterial({ color: "#9e6d7e", flatShading: true });
 
-    for (let i = 0; i < 17; i += 1) {
-      const riverX = -18.4 + Math.sin(i * 0.62) * 1.1;
-      const riverZ = 12.5 - i * 2.25;
-      const baseY = sampleWorldTerrainHeight(riverX, riverZ);
+    for (const slot of this.level.terrain.river) {
+      const riverX = slot.x;
+      const riverZ = slot.z;
+      const baseY = this.sampleTerrainHeight(riverX, riverZ);
 
       const water = new Mesh(new PlaneGeometry(2.6, 2.3, 1, 1), waterMat);
       water.rotation.x = -Math.PI * 0.5;
-      water.rotation.y = Math.sin(i * 0.75) * 0.28;
+      // With the plane laid flat first, this Y turn rolls the tile across the river (a ripple), not a yaw.
+      water.rotation.y = slot.rotY;
       water.position.set(riverX, baseY + 0.045, riverZ);
       water.userData.baseY = water.position.y;
       water.userData.baseRotY = water.rotation.y;
       this.scene.add(water);
+      this.terrainMeshes.push(water);
       this.riverTiles.push(water);
 
       const bankLeft = new Mesh(new BoxGeometry(0.22, 0.11, 2.34), bankMat);
       bankLeft.position.set(riverX - 1.42, baseY + 0.07, riverZ);
       this.scene.add(bankLeft);
+      this.terrainMeshes.push(bankLeft);
 
       const bankRight = new Mesh(new BoxGeometry(0.22, 0.11, 2.34), bankMat);
       bankRight.position.set(riverX + 1.42, baseY + 0.07, riverZ);
       this.scene.add(bankRight);
+      this.terrainMeshes.push(bankRight);
+
+      // Water and banks block as one strip; tiles overlap a little so there are no gaps to slip through.
+      this.collisions.add({ kind: "box", x: riverX, z: riverZ, halfX: 1.5, halfZ: 1.25, rotY: 0 });
     }
   }
 
-  private collectNpcMaterials(): void {
-    this.npcMaterials = [];
-    this.npc.traverse((node) => {
-      const mesh = node as Mesh;
-      if (!mesh.isMesh || !mesh.material) {
-        return;
+  // Entities with a dialogue can be talked to.
+  private async addInteractable(spawned: SpawnedEntity): Promise<void> {
+    const { entity, object } = spawned;
+    if (!entity.dialogue) {
+      return;
+    }
+
+    const dialogue = await this.assets.loadDialogue(entity.dialogue);
+    if (!dialogue || !this.entities.has(entity.id)) {
+      return;
+    }
+    this.interactables.push({
+      id: entity.id,
+      object,
+      radius: entity.interactRadius ?? DEFAULT_INTERACT_RADIUS,
+      prompt: entity.prompt ?? DEFAULT_INTERACT_PROMPT,
+      dialogue,
+      materials: collectHighlightMaterials(object)
+    });
+  }
+
+  private addPickup(spawned: SpawnedEntity, item: string): void {
+    if (!ITEMS[item]) {
+      // eslint-disable-next-line no-console
+      console.warn(`[WorldScene] Unknown item '${item}' for pickup '${spawned.entity.id}'.`);
+    }
+    const materials = collectHighlightMaterials(spawned.object);
+    for (const material of materials) {
+      material.emissive.set(getItemDefinition(item).color);
+    }
+    spawned.object.visible = !this.flags.get(PICKED_FLAG_PREFIX + spawned.entity.id);
+    this.pickups.push({ spawned, item, materials, phase: this.pickups.length * 1.7 });
+  }
+
+  // Shows the pickups the current flags say are still lying around (e.g. after a new game or a load).
+  private syncPickups(): void {
+    for (const { spawned } of this.pickups) {
+      spawned.object.visible = !this.flags.get(PICKED_FLAG_PREFIX + spawned.entity.id);
+    }
+  }
+
+  private collectPickups(): void {
+    const position = this.player.position;
+    for (const { spawned, item } of this.pickups) {
+      const { object, entity } = spawned;
+      if (!object.visible || Math.hypot(object.position.x - position.x, object.position.z - position.z) > PICKUP_RADIUS) {
+        continue;
       }
+      object.visible = false;
+      this.flags.set(PICKED_FLAG_PREFIX + entity.id, true);
+      this.inventory.add(item);
+      this.ui.showNotice(`Picked up: ${getItemDefinition(item).name}`);
+    }
+  }
 
-      if (Array.isArray(mesh.material)) {
-        mesh.material.forEach((mat) => {
-          if (mat instanceof MeshLambertMaterial) {
-            this.npcMaterials.push(mat);
-          }
-        });
-      } else if (mesh.material instanceof MeshLambertMaterial) {
-        this.npcMaterials.push(mesh.material);
+  private updatePickups(deltaSeconds: number): void {
+    this.pickupTime += deltaSeconds;
+    const t = this.pickupTime;
+    for (const { spawned, materials, phase } of this.pickups) {
+      const { object, entity } = spawned;
+      if (!object.visible) {
+        continue;
       }
-    });
+      const { x, y, z } = entity.position;
+      const baseY = y ?? this.sampleGroundHeight(x, z) + this.getGroundLift(object);
+      object.position.y = baseY + PICKUP_HOVER + Math.sin(t * 2.4 + phase) * PICKUP_BOB;
+      object.rotation.y = (entity.rotY ?? 0) + t * PICKUP_SPIN + phase;
+      const glow = 0.35 + Math.sin(t * 3.1 + phase) * 0.2;
+      for (const material of materials) {
+        material.emissiveIntensity = glow;
+      }
+    }
   }
 
   private setupAnimation(root: Object3D, clips: AnimationClip[]): void {
@@ -339,15 +865,37 @@ export class WorldScene implements IGameState {
     const mixer = new AnimationMixer(root);
     const action = mixer.clipAction(clips[0]);
     action.play();
-    this.mixers.push(mixer);
+    this.animated.set(root, { mixer, clips });
+  }
+
+  // Placeholder models have no clips, so cues for them do nothing.
+  private playAnimation(root: Object3D | null, clipName: string, loop: boolean): void {
+    const animated = root ? this.animated.get(root) : undefined;
+    if (root && animated && !playAnimationClip(animated.mixer, animated.clips, clipName, loop)) {
+      // eslint-disable-next-line no-console
+      console.warn(`[WorldScene] No animation '${clipName}' on '${root.name}'.`);
+    }
   }
 
   private reset(): void {
-    this.player.position.set(0, sampleWorldTerrainHeight(0, 8), 8);
-    this.player.rotation.y = Math.PI;
-    this.inDialogue = false;
-    this.dialogueIndex = 0;
-    this.snapPlayerToGround(1);
+    const spawn = this.restoredPlayer ?? this.level.spawns.player;
+    this.restoredPlayer = null;
+    this.restorePending = false;
+    this.player.position.set(spawn.x, this.sampleTerrainHeight(spawn.x, spawn.z), spawn.z);
+    this.player.rotation.y = spawn.rotY;
+    this.cameraYaw = spawn.rotY;
+    this.dialogue = null;
+    this.approaching = null;
+    this.pendingTransition = null;
+    this.triggerVolumes.reset();
+    this.activeTriggers.clear();
+    this.triggerHint = null;
+    this.cameraShot = null;
+    this.cutscene = null;
+    this.shotRelease = 1;
+    this.snapToGround(this.player, 1);
+    this.tiltCurrent.identity();
+    this.updatePlayerTilt(1);
 
     // Snap camera directly behind character at state start.
     this.computeCameraTargets(this.camera.position, this.lookAtPos);
@@ -356,6 +904,22 @@ export class WorldScene implements IGameState {
 
   private handleMovement(deltaSeconds: number): void {
     const moveInput = this.input.getMovementVector();
+    this.moveStart.copy(this.player.position);
+    if (this.movementScheme === "camera") {
+      this.moveCameraRelative(moveInput, deltaSeconds);
+    } else {
+      this.moveTank(moveInput, deltaSeconds);
+    }
+
+    this.applySlopeRules(deltaSeconds);
+    this.collisions.resolve(this.player.position, PLAYER_RADIUS);
+
+    const limits = this.level.terrain.limits;
+    this.player.position.x = MathUtils.clamp(this.player.position.x, limits.minX, limits.maxX);
+    this.player.position.z = MathUtils.clamp(this.player.position.z, limits.minZ, limits.maxZ);
+  }
+
+  private moveTank(moveInput: Vector2, deltaSeconds: number): void {
     const turnInput = moveInput.x;
     const forwardInput = moveInput.y;
 
@@ -363,7 +927,7 @@ export class WorldScene implements IGameState {
     if (Math.abs(turnInput) > 1e-4) {
       // A/D: rotate only around local Y (tank controls).
       this.player.rotation.y -= turnInput * turnSpeed * deltaSeconds;
-      this.player.rotation.y = Math.atan2(Math.sin(this.player.rotation.y), Math.cos(this.player.rotation.y));
+      this.player.rotation.y = wrapAngle(this.player.rotation.y);
     }
 
     if (Math.abs(forwardInput) > 1e-4) {
@@ -371,23 +935,103 @@ export class WorldScene implements IGameState {
       // W/S: move relative to character facing ("nose"), not world axes.
       this.player.translateZ(-forwardInput * moveSpeed * deltaSeconds);
     }
+  }
+
+  private moveCameraRelative(moveInput: Vector2, deltaSeconds: number): void {
+    const orbit = this.input.getCameraTurn() * CAMERA_ORBIT_SPEED * deltaSeconds;
+    this.cameraYaw = wrapAngle(this.cameraYaw - orbit - this.input.getPointerDragX() * CAMERA_DRAG_SPEED);
+
+    if (moveInput.lengthSq() < 1e-8) {
+      return;
+    }
+
+    // Camera forward on the ground is (-sin, -cos), camera right is (cos, -sin).
+    const sin = Math.sin(this.cameraYaw);
+    const cos = Math.cos(this.cameraYaw);
+    const dirX = -sin * moveInput.y + cos * moveInput.x;
+    const dirZ = -cos * moveInput.y - sin * moveInput.x;
+
+    // Walk where the stick points right away, but turn the kitty toward it smoothly.
+    const targetYaw = Math.atan2(-dirX, -dirZ);
+    const turn = wrapAngle(targetYaw - this.player.rotation.y) * (1 - Math.exp(-deltaSeconds * FACING_TURN_RATE));
+    this.player.rotation.y = wrapAngle(this.player.rotation.y + turn);
 
-    this.player.position.x = MathUtils.clamp(this.player.position.x, -23, 23);
-    this.player.position.z = MathUtils.clamp(this.player.position.z, -30, 24);
+    const moveSpeed = 4.25;
+    this.player.position.x += dirX * moveSpeed * deltaSeconds;
+    this.player.position.z += dirZ * moveSpeed * deltaSeconds;
   }
 
-  private snapPlayerToGround(deltaSeconds: number): void {
-    this.groundRayOrigin.set(this.player.position.x, 50, this.player.position.z);
-    this.groundRay.set(this.groundRayOrigin, this.groundRayDirection);
+  // Too steep: the uphill part of this frame's step is dropped, so the kitty slides along the
+  // slope instead of climbing it. Standing on a far steeper spot pushes it back downhill.
+  private applySlopeRules(deltaSeconds: number): void {
+    const position = this.player.position;
+    const normal = this.sampleGroundNormal(position.x, position.z, this.groundNormal);
+    const slope = getSlopeAngle(normal);
+    if (slope <= MAX_WALKABLE_SLOPE) {
+      return;
+    }
+
+    const downhillLength = Math.hypot(normal.x, normal.z);
+    if (downhillLength < 1e-6) {
+      return;
+    }
+    const downhillX = normal.x / downhillLength;
+    const downhillZ = normal.z / downhillLength;
+
+    const uphill = -((position.x - this.moveStart.x) * downhillX + (position.z - this.moveStart.z) * downhillZ);
+    if (uphill > 0) {
+      position.x += downhillX * uphill;
+      position.z += downhillZ * uphill;
+    }
 
-    let targetY = sampleWorldTerrainHeight(this.player.position.x, this.player.position.z);
-    const intersections = this.groundRay.intersectObjects(this.groundSurfaces, true);
-    if (intersections.length > 0) {
-      targetY = intersections[0].point.y;
+    if (slope > SLIDE_SLOPE) {
+      const slide = SLIDE_SPEED * Math.min(1, (slope - SLIDE_SLOPE) / (Math.PI * 0.5 - SLIDE_SLOPE) + 0.25);
+      position.x += downhillX * slide * deltaSeconds;
+      position.z += downhillZ * slide * deltaSeconds;
     }
+  }
+
+  private updatePlayerTilt(deltaSeconds: number): void {
+    if (this.groundTilt) {
+      // Ground normal in the player root's frame (the root only turns around Y).
+      const normal = this.sampleGroundNormal(this.player.position.x, this.player.position.z, this.groundNormal);
+      this.playerYaw.setFromAxisAngle(this.worldUp, -this.player.rotation.y);
+      normal.applyQuaternion(this.playerYaw);
+      this.tiltTarget.setFromUnitVectors(this.worldUp, normal);
+
+      const angle = 2 * Math.acos(Math.min(1, Math.abs(this.tiltTarget.w)));
+      if (angle > MAX_VISUAL_TILT) {
+        this.tiltTarget.slerp(IDENTITY_QUATERNION, 1 - MAX_VISUAL_TILT / angle);
+      }
+    } else {
+      this.tiltTarget.identity();
+    }
+
+    this.tiltCurrent.slerp(this.tiltTarget, 1 - Math.exp(-deltaSeconds * TILT_RATE));
+    this.playerVisual.quaternion.multiplyQuaternions(this.tiltCurrent, this.playerVisualRest);
+  }
 
+  // Eases the kitty or a walking character onto the baked ground.
+  private snapToGround(object: Object3D, deltaSeconds: number): void {
+    const targetY = this.sampleGroundHeight(object.position.x, object.position.z) + this.getGroundLift(object);
     const snapAmount = 1 - Math.exp(-deltaSeconds * 16);
-    this.player.position.y = MathUtils.lerp(this.player.position.y, targetY, snapAmount);
+    object.position.y = MathUtils.lerp(object.position.y, targetY, snapAmount);
+  }
+
+  // Baked ground once the scene is built; the analytic terrain before that.
+  private sampleGroundHeight(x: number, z: number): number {
+    return this.heightfield ? this.heightfield.sampleHeight(x, z) : this.sampleTerrainHeight(x, z);
+  }
+
+  // Analytic terrain with this level's hills; the heightfield is baked from the meshes on top of it.
+  private sampleTerrainHeight(x: number, z: number): number {
+    return sampleWorldTerrainHeight(x, z, this.level.terrain.hills);
+  }
+
+  private sampleGroundNormal(x: number, z: number, out: Vector3): Vector3 {
+    return this.heightfield
+      ? this.heightfield.sampleNormal(x, z, out)
+      : sampleWorldTerrainNormal(x, z, out, this.level.terrain.hills);
   }
 
   private getGroundLift(object: Object3D): number {
@@ -409,51 +1053,309 @@ export class WorldScene implements IGameState {
     }
   }
 
+  // In reach: the closest one the kitty faces wins; behind her only counts when nothing is in front.
+  private updateInteractionTarget(): void {
+    const position = this.player.position;
+    const forwardX = -Math.sin(this.player.rotation.y);
+    const forwardZ = -Math.cos(this.player.rotation.y);
+
+    let best: Interactable | null = null;
+    let bestScore = Infinity;
+    for (const interactable of this.interactables) {
+      const dx = interactable.object.position.x - position.x;
+      const dz = interactable.object.position.z - position.z;
+      const distance = Math.hypot(dx, dz);
+      if (distance >= interactable.radius) {
+        continue;
+      }
+
+      const facing = distance > 1e-4 ? (dx * forwardX + dz * forwardZ) / distance : 1;
+      const score = facing >= INTERACT_FRONT_DOT ? distance : distance + FACING_AWAY_PENALTY;
+      if (score < bestScore) {
+        best = interactable;
+        bestScore = score;
+      }
+    }
+    this.interactionTarget = best;
+  }
+
   private handleInteraction(): void {
-    const nearNpc = this.player.position.distanceTo(this.npc.position) < 2.1;
+    const target = this.interactionTarget;
+    if (!target) {
+      if (this.triggerHint) {
+        this.ui.showHint(this.triggerHint);
+      } else {
+        this.ui.hideHint();
+      }
+      return;
+    }
 
-    if (nearNpc) {
-      this.ui.showHint("E - talk");
-      if (this.input.consumeInteract()) {
-        this.onDialogueGesture();
-        this.startDialogue();
+    this.ui.showHint(`${this.input.describeAction("interact", 1)} - ${target.prompt}`);
+    if (!this.input.consumeAction("interact")) {
+      return;
+    }
+
+    this.onDialogueGesture();
+    const controller = this.entities.get(target.id)?.controller;
+    const position = this.player.position;
+    const dx = target.object.position.x - position.x;
+    const dz = target.object.position.z - position.z;
+    const distance = Math.hypot(dx, dz);
+    if (!controller || distance <= TALK_DISTANCE) {
+      this.startDialogue(target.dialogue);
+      return;
+    }
+
+    // Characters that walk come up to the kitty before the conversation starts.
+    this.approaching = target;
+    this.ui.hideHint();
+    const scale = TALK_DISTANCE / distance;
+    void controller.walkTo(position.x + dx * scale, position.z + dz * scale).then(() => {
+      if (this.approaching === target) {
+        this.approaching = null;
+        this.startDialogue(target.dialogue);
+      }
+    });
+  }
+
+  private updateTriggers(deltaSeconds: number): void {
+    const { x, z } = this.player.position;
+    this.triggerVolumes.update(x, z, deltaSeconds, (id, event) => {
+      const trigger = this.level.triggers.find((candidate) => candidate.id === id);
+      if (trigger) {
+        this.fireTrigger(trigger, event);
       }
+    });
+  }
+
+  private fireTrigger(trigger: LevelTrigger, event: TriggerEvent): void {
+    if (event === "enter") {
+      const onceFlag = TRIGGERED_FLAG_PREFIX + trigger.id;
+      if ((trigger.once && this.flags.get(onceFlag)) || !areDialogueConditionsMet(this.flags, trigger.conditions)) {
+        return;
+      }
+      this.activeTriggers.add(trigger.id);
+      if (trigger.once) {
+        this.flags.set(onceFlag, true);
+      }
+      this.runScript(trigger.onEnter);
+      return;
+    }
+
+    if (!this.activeTriggers.has(trigger.id)) {
+      return;
+    }
+    if (event === "exit") {
+      this.activeTriggers.delete(trigger.id);
+      this.runScript(trigger.onExit);
     } else {
-      this.ui.hideHint();
+      this.runScript(trigger.onStay);
+    }
+  }
+
+  private runScript(actions: LevelScriptAction[] | undefined): void {
+    const context = { flags: this.flags, onAction: (action: DialogueAction) => this.runDialogueAction(action) };
+    // A transition waits for a conversation or cutscene the script starts.
+    let waits = false;
+    for (const action of actions ?? []) {
+      switch (action.type) {
+        case "hint":
+          this.triggerHint = action.text;
+          break;
+        case "hideHint":
+          this.triggerHint = null;
+          break;
+        case "dialogue":
+          waits = true;
+          void this.startScriptedDialogue(action.dialogue);
+          break;
+        case "sound":
+          void this.playSound(action.sound, action.volume ?? 1);
+          break;
+        case "camera":
+          this.startCameraShot(action.position, action.lookAt, action.seconds ?? DEFAULT_SHOT_SECONDS);
+          break;
+        case "cutscene":
+          waits = true;
+          void this.playCutscene(action.cutscene);
+          break;
+        default:
+          runDialogueActions(context, [action]);
+      }
     }
+    if (!waits && !this.dialogue) {
+      this.flushTransition();
+    }
+  }
+
+  private async startScriptedDialogue(path: string): Promise<void> {
+    const graph = await this.assets.loadDialogue(path);
+    if (this.dialogue) {
+      return;
+    }
+    if (graph) {
+      this.startDialogue(graph);
+    } else {
+      this.flushTransition();
+    }
+  }
+
+  // Cutscenes triggers start are loaded up front, so one starts on the frame its trigger fires.
+  private async preloadCutscenes(): Promise<void> {
+    const paths = this.level.triggers
+      .flatMap((trigger) => [...(trigger.onEnter ?? []), ...(trigger.onStay ?? []), ...(trigger.onExit ?? [])])
+      .flatMap((action) => (action.type === "cutscene" ? [action.cutscene] : []));
+    await Promise.all(paths.map((path) => this.assets.loadCutscene(path)));
+  }
+
+  private async playCutscene(path: string): Promise<void> {
+    const definition = await this.assets.loadCutscene(path);
+    if (this.cutscene) {
+      return;
+    }
+    if (definition) {
+      this.cutscene = new CutscenePlayer(definition, this.cutsceneHost);
+    } else if (!this.dialogue) {
+      this.flushTransition();
+    }
+  }
+
+  private updateCutscene(cutscene: CutscenePlayer, deltaSeconds: number): void {
+    cutscene.update(deltaSeconds);
+    if (!cutscene.finished) {
+      return;
+    }
+    this.cutscene = null;
+    // The follow camera eases in from wherever the cutscene left the view.
+    cutscene.getLookAt(this.shotLook);
+    this.shotRelease = 0;
+    if (!this.dialogue) {
+      this.flushTransition();
+    }
+  }
+
+  private async playSound(path: string, volume: number): Promise<void> {
+    const buffer = await this.assets.loadAudioBuffer(path);
+    if (!buffer || !this.audioUnlocked) {
+      return;
+    }
+    const sound = new Audio(this.listener);
+    sound.setBuffer(buffer);
+    sound.setVolume(volume * this.sfxVolume);
+    sound.play();
+  }
+
+  private startCameraShot(position: LevelVector, lookAt: LevelVector, seconds: number): void {
+    if (!this.cameraShot) {
+      this.shotLook.copy(this.lookAtPos);
+    }
+    this.cameraShot = {
+      position: new Vector3(position.x, position.y, position.z),
+      lookAt: new Vector3(lookAt.x, lookAt.y, lookAt.z),
+      remaining: seconds
+    };
+    this.ui.hideHint();
   }
 
-  private updateNpcHighlight(): void {
-    const nearNpc = this.player.position.distanceTo(this.npc.position) < 2.1;
-    for (const material of this.npcMaterials) {
-      material.emissive.setHex(nearNpc ? 0x331122 : 0x000000);
-      material.emissiveIntensity = nearNpc ? 0.9 : 0.0;
+  private updateNpcs(deltaSeconds: number): void {
+    for (const spawned of this.entities.values()) {
+      if (!spawned.controller || this.cutscene?.drives(spawned.entity.id)) {
+        continue;
+      }
+      const talking = this.dialogue !== null && this.interactionTarget?.id === spawned.entity.id;
+      spawned.controller.update(deltaSeconds, this.player.position, talking);
+      this.syncCollider(spawned);
+    }
+  }
+
+  private updateInteractableHighlight(): void {
+    for (const interactable of this.interactables) {
+      const lit = interactable === this.interactionTarget;
+      for (const material of interactable.materials) {
+        material.emissive.setHex(lit ? 0x331122 : 0x000000);
+        material.emissiveIntensity = lit ? 0.9 : 0.0;
+      }
     }
   }
 
   private handleDialogueInput(): void {
-    if (!this.input.consumeDialogueAdvance()) {
+    const view = this.dialogue?.current;
+    if (!this.dialogue || !view) {
       return;
     }
 
-    this.onDialogueGesture();
-    this.dialogueIndex += 1;
+    // Advance pressed mid-reveal finishes the line instead of skipping it.
+    if (this.ui.isDialogueRevealing()) {
+      if (this.input.consumeAction("advance")) {
+        this.onDialogueGesture();
+        this.ui.completeDialogueReveal();
+      }
+      return;
+    }
 
-    if (this.dialogueIndex >= DIALOGUE.length) {
-      this.inDialogue = false;
-      this.ui.hideDialogue();
-      this.onDialogueFinished();
+    // Choice nodes are driven by the UI choice menu promise instead of advance input.
+    if (view.choices.length > 0 || !this.input.consumeAction("advance")) {
       return;
     }
 
-    this.ui.showDialogue(DIALOGUE[this.dialogueIndex]);
+    this.onDialogueGesture();
+    this.showDialogueView(this.dialogue.advance());
   }
 
-  private startDialogue(): void {
-    this.inDialogue = true;
-    this.dialogueIndex = 0;
+  // A transition already pending (from the trigger that started it) runs when this conversation closes.
+  private startDialogue(graph: DialogueGraph): void {
+    this.dialogue = new DialogueRunner(graph, {
+      flags: this.flags,
+      onAction: (action) => this.runDialogueAction(action)
+    });
     this.ui.hideHint();
-    this.ui.showDialogue(DIALOGUE[0]);
+    this.showDialogueView(this.dialogue.start());
+  }
+
+  private showDialogueView(view: DialogueView | null): void {
+    if (view) {
+      this.ui.showDialogue({ speaker: view.speaker, text: view.text });
+      if (view.choices.length > 0) {
+        void this.awaitDialogueChoice(view);
+      }
+      return;
+    }
+
+    this.dialogue = null;
+    this.ui.hideDialogue();
+    this.flushTransition();
+  }
+
+  private flushTransition(): void {
+    const transition = this.pendingTransition;
+    this.pendingTransition = null;
+    if (transition) {
+      // Effects close in on the kitty, wherever she is on screen.
+      this.screenPoint.copy(this.player.position).add(this.lookOffset).project(this.camera);
+      this.onDialogueTransition(transition.target, {
+        name: transition.effect,
+        center: { x: this.screenPoint.x * 0.5 + 0.5, y: this.screenPoint.y * 0.5 + 0.5 }
+      });
+    }
+  }
+
+  private async awaitDialogueChoice(view: DialogueView): Promise<void> {
+    const runner = this.dialogue;
+    const picked = await this.ui.showChoices(view.choices);
+    if (picked === null || !runner || this.dialogue !== runner) {
+      return;
+    }
+
+    this.onDialogueGesture();
+    this.showDialogueView(runner.choose(picked));
+  }
+
+  private runDialogueAction(action: DialogueAction): void {
+    if (action.type === "transition") {
+      // Deferred until the conversation (or the trigger script) is over so the dialog box is hidden
+      // before the fade starts.
+      this.pendingTransition = { target: action.target, effect: isTransitionEffectName(action.effect) ? action.effect : "swirl" };
+    }
   }
 
   private async setupMusic(): Promise<void> {
@@ -468,7 +1370,7 @@ export class WorldScene implements IGameState {
 
     this.worldMusic = new Audio(this.listener);
     this.worldMusic.setLoop(true);
-    this.worldMusic.setVolume(0.5);
+    this.worldMusic.setVolume(WORLD_MUSIC_GAIN * this.musicVolume);
     this.worldMusic.setBuffer(buffer);
     this.tryStartMusic();
   }
@@ -488,14 +1390,38 @@ export class WorldScene implements IGameState {
   }
 
   private updateCamera(deltaSeconds: number): void {
-    this.computeCameraTargets(this.desiredCamPos, this.lookAtPos);
-    this.camera.position.lerp(this.desiredCamPos, 1 - Math.exp(-deltaSeconds * 7));
+    if (this.cutscene) {
+      return;
+    }
+    const blend = 1 - Math.exp(-deltaSeconds * 7);
+    const shot = this.cameraShot;
+    if (shot) {
+      this.desiredCamPos.copy(shot.position);
+      this.lookAtPos.copy(this.shotLook.lerp(shot.lookAt, blend));
+      shot.remaining -= deltaSeconds;
+      if (shot.remaining <= 0) {
+        this.cameraShot = null;
+        this.shotRelease = 0;
+      }
+    } else {
+      this.computeCameraTargets(this.desiredCamPos, this.lookAtPos);
+      if (this.shotRelease < 1) {
+        // The view turns back to the kitty instead of snapping onto her.
+        this.shotRelease = Math.min(1, this.shotRelease + deltaSeconds / SHOT_RELEASE_SECONDS);
+        this.lookAtPos.copy(this.shotLook.lerp(this.lookAtPos, this.shotRelease));
+      }
+    }
+    this.camera.position.lerp(this.desiredCamPos, blend);
     this.camera.lookAt(this.lookAtPos);
   }
 
   private computeCameraTargets(outPos: Vector3, outLookAt: Vector3): void {
-    // Character forward in world space (Three.js forward is local -Z).
-    this.camForward.set(0, 0, -1).applyQuaternion(this.player.quaternion);
+    // Character forward in world space (Three.js forward is local -Z), or the orbit direction.
+    if (this.movementScheme === "camera") {
+      this.camForward.set(-Math.sin(this.cameraYaw), 0, -Math.cos(this.cameraYaw));
+    } else {
+      this.camForward.set(0, 0, -1).applyQuaternion(this.player.quaternion);
+    }
     this.camForward.y = 0;
     if (this.camForward.lengthSq() < 1e-5) {
       this.camForward.set(0, 0, -1);
@@ -518,3 +1444,29 @@ export class WorldScene implements IGameState {
   }
 }
 
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+// Own copies of an object's Lambert materials, so highlighting one character never lights up
+// another instance of the same model.
+function collectHighlightMaterials(root: Object3D): MeshLambertMaterial[] {
+  const materials: MeshLambertMaterial[] = [];
+  const own = (material: Material): Material => {
+    if (!(material instanceof MeshLambertMaterial)) {
+      return material;
+    }
+    const copy = material.clone();
+    materials.push(copy);
+    return copy;
+  };
+
+  root.traverse((node) => {
+    const mesh = node as Mesh;
+    if (!mesh.isMesh || !mesh.material) {
+      return;
+    }
+    mesh.material = Array.isArray(mesh.material) ? mesh.material.map(own) : own(mesh.material);
+  });
+  return materials;
+}
@@ -0,0 +1,126 @@
+import type { Input } from "../core/Input";
+
+export interface ChoiceOption {
+  text: string;
+  disabled?: boolean;
+  disabledReason?: string;
+}
+
+const SHORTCUT_KEYS = ["Digit1", "Digit2", "Digit3", "Digit4", "Digit5", "Digit6", "Digit7", "Digit8", "Digit9"];
+
+export class ChoiceMenu {
+  readonly element: HTMLOListElement;
+
+  private options: ChoiceOption[] = [];
+  private items: HTMLLIElement[] = [];
+  private selected = -1;
+  private resolveChoice: ((index: number | null) => void) | null = null;
+
+  constructor() {
+    this.element = document.createElement("ol");
+    this.element.className = "ui-choices";
+  }
+
+  get isOpen(): boolean {
+    return this.resolveChoice !== null;
+  }
+
+  open(options: ChoiceOption[], initialIndex = 0): Promise<number | null> {
+    this.close();
+
+    this.options = options;
+    this.items = options.map((option, index) => this.createItem(option, index));
+    this.element.replaceChildren(...this.items);
+    this.select(this.findEnabled(Math.max(0, initialIndex), 1));
+
+    return new Promise<number | null>((resolve) => {
+      this.resolveChoice = resolve;
+    });
+  }
+
+  close(): void {
+    this.finish(null);
+  }
+
+  update(input: Input): void {
+    if (!this.isOpen) {
+      return;
+    }
+
+    if (input.consumeAction("menuUp")) {
+      this.select(this.findEnabled(this.selected - 1, -1));
+    }
+    if (input.consumeAction("menuDown")) {
+      this.select(this.findEnabled(this.selected + 1, 1));
+    }
+
+    for (let i = 0; i < Math.min(this.options.length, SHORTCUT_KEYS.length); i += 1) {
+      if (input.consumePressed(SHORTCUT_KEYS[i]) && !this.options[i].disabled) {
+        this.finish(i);
+        return;
+      }
+    }
+
+    if (input.consumeAction("menuConfirm") && this.selected >= 0) {
+      this.finish(this.selected);
+    }
+  }
+
+  private createItem(option: ChoiceOption, index: number): HTMLLIElement {
+    const item = document.createElement("li");
+    item.className = "ui-choice";
+
+    const label = document.createElement("span");
+    label.textContent = option.text;
+    item.append(label);
+
+    if (option.disabled) {
+      item.classList.add("disabled");
+      if (option.disabledReason) {
+        const reason = document.createElement("span");
+        reason.className = "ui-choice-reason";
+        reason.textContent = option.disabledReason;
+        item.append(reason);
+      }
+      return item;
+    }
+
+    item.addEventListener("pointerenter", () => this.select(index));
+    // pointerdown (not click) so the press never reaches Input as a dialogue advance.
+    item.addEventListener("pointerdown", (event) => {
+      event.stopPropagation();
+      this.finish(index);
+    });
+    return item;
+  }
+
+  private findEnabled(from: number, step: 1 | -1): number {
+    const count = this.options.length;
+    for (let i = 0; i < count; i += 1) {
+      const index = (((from + i * step) % count) + count) % count;
+      if (!this.options[index].disabled) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private select(index: number): void {
+    this.selected = index;
+    this.items.forEach((item, i) => item.classList.toggle("selected", i === index));
+  }
+
+  private finish(index: number | null): void {
+    const resolve = this.resolveChoice;
+    if (!resolve) {
+      return;
+    }
+
+    this.resolveChoice = null;
+    this.options = [];
+    this.items = [];
+    this.selected = -1;
+    this.element.replaceChildren();
+    resolve(index);
+  }
+}
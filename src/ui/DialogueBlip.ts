@@ -0,0 +1,69 @@
+import { Audio, AudioListener } from "three";
+
+const POOL_SIZE = 4;
+const BLIP_SECONDS = 0.035;
+const BLIP_GAIN = 0.18;
+
+export class DialogueBlip {
+  private readonly listener: AudioListener;
+  private readonly voices: Audio[] = [];
+  private buffer: AudioBuffer | null = null;
+  private nextVoice = 0;
+
+  enabled = true;
+  // SFX volume setting (0..1), applied on top of the blip's own gain.
+  volume = 1;
+
+  constructor(listener: AudioListener) {
+    this.listener = listener;
+  }
+
+  play(pitch: number): void {
+    const context = this.listener.context;
+    // Never queue blips on a suspended context: they would all fire at once after unlock.
+    if (!this.enabled || context.state !== "running") {
+      return;
+    }
+
+    const voice = this.getVoice();
+    if (voice.isPlaying) {
+      voice.stop();
+    }
+    voice.setVolume(BLIP_GAIN * this.volume);
+    voice.setPlaybackRate(pitch);
+    voice.play();
+  }
+
+  private getVoice(): Audio {
+    if (!this.buffer) {
+      this.buffer = this.createBuffer(this.listener.context);
+    }
+
+    if (this.voices.length < POOL_SIZE) {
+      const voice = new Audio(this.listener);
+      voice.setBuffer(this.buffer);
+      this.voices.push(voice);
+      return voice;
+    }
+
+    const voice = this.voices[this.nextVoice];
+    this.nextVoice = (this.nextVoice + 1) % this.voices.length;
+    return voice;
+  }
+
+  private createBuffer(context: AudioContext): AudioBuffer {
+    const length = Math.floor(context.sampleRate * BLIP_SECONDS);
+    const buffer = context.createBuffer(1, length, context.sampleRate);
+    const data = buffer.getChannelData(0);
+    const frequency = 520;
+
+    for (let i = 0; i < length; i += 1) {
+      const t = i / context.sampleRate;
+      const square = Math.sin(2 * Math.PI * frequency * t) >= 0 ? 1 : -1;
+      const envelope = 1 - i / length;
+      data[i] = square * envelope * 0.6;
+    }
+
+    return buffer;
+  }
+}
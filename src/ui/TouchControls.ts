@@ -0,0 +1,207 @@
+import type { Input } from "../core/Input";
+import { TOUCH_BUTTON_A, TOUCH_BUTTON_BAG, TOUCH_BUTTON_DANCE, TOUCH_BUTTON_PAUSE } from "../core/InputActions";
+
+// Knob travel in CSS pixels for a full-strength push.
+const STICK_RADIUS = 56;
+
+interface TouchButton {
+  element: HTMLButtonElement;
+  code: string;
+  pointerId: number | null;
+}
+
+// On-screen stick and buttons for touch devices. Each control tracks its own pointer id,
+// so the player can walk with one thumb and press A with the other.
+export class TouchControls {
+  readonly element: HTMLDivElement;
+
+  private readonly input: Input;
+  private readonly stickZone: HTMLDivElement;
+  private readonly stickBase: HTMLDivElement;
+  private readonly stickKnob: HTMLDivElement;
+  private readonly buttons: TouchButton[];
+
+  private stickPointer: number | null = null;
+  private readonly stickOrigin = { x: 0, y: 0 };
+  private enabled = false;
+  private detected: boolean;
+
+  constructor(input: Input) {
+    this.input = input;
+    this.detected = TouchControls.isTouchDevice();
+
+    this.element = document.createElement("div");
+    this.element.className = "ui-touch";
+
+    this.stickZone = document.createElement("div");
+    this.stickZone.className = "ui-touch-stick-zone";
+
+    this.stickBase = document.createElement("div");
+    this.stickBase.className = "ui-touch-stick";
+
+    this.stickKnob = document.createElement("div");
+    this.stickKnob.className = "ui-touch-knob";
+
+    this.stickBase.append(this.stickKnob);
+    this.stickZone.append(this.stickBase);
+
+    this.buttons = [
+      this.createButton("A", "ui-touch-button ui-touch-a", TOUCH_BUTTON_A),
+      this.createButton("II", "ui-touch-button ui-touch-pause", TOUCH_BUTTON_PAUSE),
+      this.createButton("Bag", "ui-touch-button ui-touch-bag", TOUCH_BUTTON_BAG),
+      this.createButton("Dance", "ui-touch-button ui-touch-dance", TOUCH_BUTTON_DANCE)
+    ];
+
+    this.element.append(this.stickZone, ...this.buttons.map((button) => button.element));
+
+    this.stickZone.addEventListener("pointerdown", this.onStickDown);
+    this.stickZone.addEventListener("pointermove", this.onStickMove);
+    this.stickZone.addEventListener("pointerup", this.onStickUp);
+    this.stickZone.addEventListener("pointercancel", this.onStickUp);
+    // Capture phase: sees every pointer before any control stops its propagation.
+    window.addEventListener("pointerdown", this.onAnyPointerDown, true);
+    window.addEventListener("keydown", this.onAnyKeyDown, true);
+
+    this.refresh();
+  }
+
+  // Scenes with free movement enable the controls; they only show up on touch devices.
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.refresh();
+  }
+
+  // The Dance button only shows where dancing does something (the club).
+  setDanceEnabled(enabled: boolean): void {
+    this.element.classList.toggle("dance", enabled);
+  }
+
+  dispose(): void {
+    window.removeEventListener("pointerdown", this.onAnyPointerDown, true);
+    window.removeEventListener("keydown", this.onAnyKeyDown, true);
+    this.release();
+  }
+
+  // Lets go of the stick and buttons, e.g. when a menu covers them mid-press.
+  release(): void {
+    this.endStick();
+    for (const button of this.buttons) {
+      if (button.pointerId !== null) {
+        button.pointerId = null;
+        button.element.classList.remove("pressed");
+        this.input.setVirtualButton(button.code, false);
+      }
+    }
+  }
+
+  private createButton(label: string, className: string, code: string): TouchButton {
+    const element = document.createElement("button");
+    element.type = "button";
+    element.className = className;
+    element.textContent = label;
+
+    const button: TouchButton = { element, code, pointerId: null };
+
+    element.addEventListener("pointerdown", (event) => {
+      // Keeps the press from also reaching Input as a click / dialogue advance.
+      event.stopPropagation();
+      event.preventDefault();
+      element.setPointerCapture(event.pointerId);
+      button.pointerId = event.pointerId;
+      element.classList.add("pressed");
+      this.input.setVirtualButton(code, true);
+    });
+
+    const release = (event: PointerEvent): void => {
+      if (event.pointerId !== button.pointerId) {
+        return;
+      }
+      button.pointerId = null;
+      element.classList.remove("pressed");
+      this.input.setVirtualButton(code, false);
+    };
+    element.addEventListener("pointerup", release);
+    element.addEventListener("pointercancel", release);
+
+    return button;
+  }
+
+  private refresh(): void {
+    const visible = this.enabled && this.detected;
+    this.element.classList.toggle("visible", visible);
+    if (!visible) {
+      this.release();
+    }
+  }
+
+  private endStick(): void {
+    this.stickPointer = null;
+    this.stickBase.classList.remove("active");
+    this.stickBase.style.left = "";
+    this.stickBase.style.top = "";
+    this.stickKnob.style.transform = "";
+    this.input.setTouchStick(0, 0);
+  }
+
+  private readonly onStickDown = (event: PointerEvent): void => {
+    event.stopPropagation();
+    if (this.stickPointer !== null) {
+      return;
+    }
+
+    this.stickPointer = event.pointerId;
+    this.stickZone.setPointerCapture(event.pointerId);
+
+    // Floating stick: it centers wherever the thumb lands inside the zone.
+    const zone = this.stickZone.getBoundingClientRect();
+    this.stickOrigin.x = event.clientX;
+    this.stickOrigin.y = event.clientY;
+    this.stickBase.style.left = `${event.clientX - zone.left}px`;
+    this.stickBase.style.top = `${event.clientY - zone.top}px`;
+    this.stickBase.classList.add("active");
+    this.input.setTouchStick(0, 0);
+  };
+
+  private readonly onStickMove = (event: PointerEvent): void => {
+    if (event.pointerId !== this.stickPointer) {
+      return;
+    }
+
+    let dx = event.clientX - this.stickOrigin.x;
+    let dy = event.clientY - this.stickOrigin.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance > STICK_RADIUS) {
+      dx *= STICK_RADIUS / distance;
+      dy *= STICK_RADIUS / distance;
+    }
+
+    this.stickKnob.style.transform = `translate(${dx}px, ${dy}px)`;
+    // Screen up is forward.
+    this.input.setTouchStick(dx / STICK_RADIUS, -dy / STICK_RADIUS);
+  };
+
+  private readonly onStickUp = (event: PointerEvent): void => {
+    if (event.pointerId === this.stickPointer) {
+      this.endStick();
+    }
+  };
+
+  private readonly onAnyPointerDown = (event: PointerEvent): void => {
+    const touch = event.pointerType === "touch";
+    if (touch !== this.detected) {
+      this.detected = touch;
+      this.refresh();
+    }
+  };
+
+  private readonly onAnyKeyDown = (): void => {
+    if (this.detected) {
+      this.detected = false;
+      this.refresh();
+    }
+  };
+
+  private static isTouchDevice(): boolean {
+    return window.matchMedia?.("(pointer: coarse)").matches || navigator.maxTouchPoints > 0;
+  }
+}
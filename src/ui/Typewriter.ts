@@ -0,0 +1,184 @@
+// Inline markup understood by the typewriter:
+//   {pause=400}            wait 400 ms before the next character
+//   {speed=0.5} ... {/speed}  multiply the reveal speed
+//   {color=#ffdf8f} ... {/color}
+//   {shake} ... {/shake}
+// Unknown tags are printed as-is so typos stay visible to writers.
+
+interface TypewriterGlyph {
+  char: string;
+  color: string | null;
+  shake: boolean;
+  // Delay in ms between the previous glyph and this one.
+  delayMs: number;
+}
+
+const BASE_CHARS_PER_SECOND = 38;
+const PUNCTUATION_PAUSE_MS: Record<string, number> = {
+  ".": 160,
+  "!": 160,
+  "?": 160,
+  ",": 70
+};
+
+const TAG_PATTERN = /\{(\/?)(pause|speed|color|shake)(?:=([^}]*))?\}/gu;
+
+export function stripTypewriterMarkup(text: string): string {
+  return text.replace(TAG_PATTERN, "");
+}
+
+export function parseTypewriterMarkup(text: string): TypewriterGlyph[] {
+  const glyphs: TypewriterGlyph[] = [];
+  const speedStack: number[] = [1];
+  const colorStack: string[] = [];
+  let shakeDepth = 0;
+  let pendingPauseMs = 0;
+  let previousChar = "";
+
+  const pushText = (chunk: string): void => {
+    for (const char of chunk) {
+      const speed = speedStack[speedStack.length - 1];
+      const baseDelay = 1000 / (BASE_CHARS_PER_SECOND * Math.max(0.05, speed));
+      glyphs.push({
+        char,
+        color: colorStack[colorStack.length - 1] ?? null,
+        shake: shakeDepth > 0,
+        delayMs: baseDelay + pendingPauseMs + (PUNCTUATION_PAUSE_MS[previousChar] ?? 0)
+      });
+      pendingPauseMs = 0;
+      previousChar = char;
+    }
+  };
+
+  let cursor = 0;
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    pushText(text.slice(cursor, match.index));
+    cursor = (match.index ?? 0) + match[0].length;
+
+    const closing = match[1] === "/";
+    const tag = match[2];
+    const value = match[3];
+
+    switch (tag) {
+      case "pause":
+        pendingPauseMs += Number(value) || 0;
+        break;
+      case "speed":
+        if (closing) {
+          if (speedStack.length > 1) speedStack.pop();
+        } else {
+          speedStack.push(Number(value) || 1);
+        }
+        break;
+      case "color":
+        if (closing) {
+          colorStack.pop();
+        } else if (value) {
+          colorStack.push(value);
+        }
+        break;
+      case "shake":
+        shakeDepth = Math.max(0, shakeDepth + (closing ? -1 : 1));
+        break;
+    }
+  }
+  pushText(text.slice(cursor));
+
+  return glyphs;
+}
+
+export class Typewriter {
+  private readonly target: HTMLElement;
+  private readonly onGlyph: (char: string) => void;
+
+  private glyphs: TypewriterGlyph[] = [];
+  private spans: HTMLSpanElement[] = [];
+  private revealed = 0;
+  private elapsedMs = 0;
+  private nextRevealAt = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(target: HTMLElement, onGlyph: (char: string) => void) {
+    this.target = target;
+    this.onGlyph = onGlyph;
+  }
+
+  get isRevealing(): boolean {
+    return this.revealed < this.glyphs.length;
+  }
+
+  start(text: string): void {
+    this.glyphs = parseTypewriterMarkup(text);
+    this.spans = this.glyphs.map((glyph, index) => {
+      const span = document.createElement("span");
+      span.textContent = glyph.char;
+      span.className = "ui-glyph";
+      if (glyph.color) {
+        span.style.color = glyph.color;
+      }
+      if (glyph.shake) {
+        span.classList.add("shake");
+        span.style.animationDelay = `${-index * 53}ms`;
+      }
+      return span;
+    });
+    this.target.replaceChildren(...this.spans);
+
+    this.revealed = 0;
+    this.elapsedMs = 0;
+    this.nextRevealAt = this.glyphs[0]?.delayMs ?? 0;
+    this.flushWaitersIfDone();
+  }
+
+  update(deltaMs: number): void {
+    if (!this.isRevealing) {
+      return;
+    }
+
+    this.elapsedMs += deltaMs;
+    let playedBlip = false;
+    while (this.isRevealing && this.elapsedMs >= this.nextRevealAt) {
+      const glyph = this.glyphs[this.revealed];
+      this.spans[this.revealed].classList.add("shown");
+      this.revealed += 1;
+
+      // At most one blip per frame, otherwise fast lines turn into noise.
+      if (!playedBlip && glyph.char.trim() !== "") {
+        this.onGlyph(glyph.char);
+        playedBlip = true;
+      }
+
+      const next = this.glyphs[this.revealed];
+      if (next) {
+        this.nextRevealAt += next.delayMs;
+      }
+    }
+    this.flushWaitersIfDone();
+  }
+
+  complete(): void {
+    for (let i = this.revealed; i < this.spans.length; i += 1) {
+      this.spans[i].classList.add("shown");
+    }
+    this.revealed = this.glyphs.length;
+    this.flushWaitersIfDone();
+  }
+
+  whenDone(): Promise<void> {
+    if (!this.isRevealing) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.waiters.push(resolve);
+    });
+  }
+
+  private flushWaitersIfDone(): void {
+    if (this.isRevealing || this.waiters.length === 0) {
+      return;
+    }
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+}
@@ -1,8 +1,29 @@
+import type { AudioListener } from "three";
+import type { Input } from "../core/Input";
+import type { InventoryEntry } from "../core/Inventory";
+import type { QuestLogEntry } from "../core/Quests";
+import { ChoiceMenu, ChoiceOption } from "./ChoiceMenu";
+import { DialogueBlip } from "./DialogueBlip";
+import { TouchControls } from "./TouchControls";
+import { Typewriter } from "./Typewriter";
+
 export interface DialogueLine {
   speaker: string;
   text: string;
+  // Replaces the "advance" tip under the text (e.g. cutscene lines that advance on their own).
+  tip?: string;
 }
 
+function getSpeakerPitch(speaker: string): number {
+  let hash = 0;
+  for (const char of speaker) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return 0.85 + (Math.abs(hash) % 7) * 0.07;
+}
+
+const NOTICE_SECONDS = 2.6;
+
 function wait(ms: number): Promise<void> {
   return new Promise((resolve) => {
     window.setTimeout(resolve, ms);
@@ -10,20 +31,65 @@ function wait(ms: number): Promise<void> {
 }
 
 export class UI {
+  private readonly input: Input;
   private readonly layer: HTMLDivElement;
   private readonly hint: HTMLDivElement;
+  private readonly debugPanel: HTMLPreElement;
+  private readonly questLog: HTMLDivElement;
+  private readonly notice: HTMLDivElement;
+  private readonly inventory: HTMLDivElement;
+  private readonly inventoryList: HTMLDivElement;
+  private readonly inventoryTip: HTMLParagraphElement;
+  private closeInventory: (() => void) | null = null;
   private readonly dialog: HTMLDivElement;
   private readonly dialogName: HTMLParagraphElement;
   private readonly dialogText: HTMLParagraphElement;
+  private readonly dialogTip: HTMLParagraphElement;
+  private readonly menu: HTMLDivElement;
+  private readonly menuTitle: HTMLParagraphElement;
+  private readonly menuSubtitle: HTMLParagraphElement;
   private readonly fade: HTMLDivElement;
+  private readonly touchControls: TouchControls;
+
+  private readonly choiceMenu = new ChoiceMenu();
+  private readonly menuChoices = new ChoiceMenu();
+  private readonly typewriter: Typewriter;
+  private readonly blip: DialogueBlip;
+  private blipPitch = 1;
+  private dialogueToken = 0;
+  private readonly notices: string[] = [];
+  private noticeTimer = 0;
+
+  constructor(root: HTMLElement, input: Input, audioListener: AudioListener) {
+    this.input = input;
+    this.blip = new DialogueBlip(audioListener);
 
-  constructor(root: HTMLElement) {
     this.layer = document.createElement("div");
     this.layer.className = "ui-layer";
 
     this.hint = document.createElement("div");
     this.hint.className = "ui-hint";
-    this.hint.textContent = "E - talk";
+
+    this.debugPanel = document.createElement("pre");
+    this.debugPanel.className = "ui-debug";
+
+    this.questLog = document.createElement("div");
+    this.questLog.className = "ui-quests";
+
+    this.notice = document.createElement("div");
+    this.notice.className = "ui-notice";
+
+    this.inventory = document.createElement("div");
+    this.inventory.className = "ui-inventory";
+    const inventoryTitle = document.createElement("p");
+    inventoryTitle.className = "ui-menu-title";
+    inventoryTitle.textContent = "Inventory";
+    this.inventoryList = document.createElement("div");
+    this.inventoryList.className = "ui-inventory-list";
+    this.inventoryTip = document.createElement("p");
+    this.inventoryTip.className = "ui-dialog-tip";
+    this.inventory.append(inventoryTitle, this.inventoryList, this.inventoryTip);
+    this.inventory.addEventListener("click", () => this.hideInventory());
 
     this.dialog = document.createElement("div");
     this.dialog.className = "ui-dialog";
@@ -33,12 +99,27 @@ export class UI {
 
     this.dialogText = document.createElement("p");
     this.dialogText.className = "ui-dialog-text";
+    this.typewriter = new Typewriter(this.dialogText, () => {
+      this.blip.play(this.blipPitch * (0.94 + Math.random() * 0.12));
+    });
+
+    this.dialogTip = document.createElement("p");
+    this.dialogTip.className = "ui-dialog-tip";
+
+    this.dialog.append(this.dialogName, this.dialogText, this.choiceMenu.element, this.dialogTip);
 
-    const dialogTip = document.createElement("p");
-    dialogTip.className = "ui-dialog-tip";
-    dialogTip.textContent = "Space / Enter / Click";
+    this.menu = document.createElement("div");
+    this.menu.className = "ui-menu";
 
-    this.dialog.append(this.dialogName, this.dialogText, dialogTip);
+    this.menuTitle = document.createElement("p");
+    this.menuTitle.className = "ui-menu-title";
+
+    this.menuSubtitle = document.createElement("p");
+    this.menuSubtitle.className = "ui-menu-subtitle";
+
+    this.menu.append(this.menuTitle, this.menuSubtitle, this.menuChoices.element);
+
+    this.touchControls = new TouchControls(input);
 
     this.fade = document.createElement("div");
     this.fade.className = "ui-fade";
@@ -46,7 +127,18 @@ export class UI {
     const scanlines = document.createElement("div");
     scanlines.className = "ui-scanlines";
 
-    this.layer.append(this.hint, this.dialog, scanlines, this.fade);
+    this.layer.append(
+      this.hint,
+      this.debugPanel,
+      this.questLog,
+      this.notice,
+      this.dialog,
+      this.touchControls.element,
+      this.inventory,
+      this.menu,
+      scanlines,
+      this.fade
+    );
     root.append(this.layer);
   }
 
@@ -59,14 +151,209 @@ export class UI {
     this.hint.classList.remove("visible");
   }
 
+  // Monospace status block for debug tools (the level editor).
+  showDebugPanel(text: string): void {
+    this.debugPanel.textContent = text;
+    this.debugPanel.classList.add("visible");
+  }
+
+  hideDebugPanel(): void {
+    this.debugPanel.classList.remove("visible");
+  }
+
+  // Tracker of started quests and their current objectives.
+  setQuestLog(entries: QuestLogEntry[]): void {
+    const rows = entries.map((entry) => {
+      const row = document.createElement("div");
+      row.className = entry.done ? "ui-quest done" : "ui-quest";
+      const title = document.createElement("p");
+      title.className = "ui-quest-title";
+      title.textContent = entry.title;
+      row.append(title);
+      if (entry.objective) {
+        const objective = document.createElement("p");
+        objective.className = "ui-quest-objective";
+        objective.textContent = entry.objective;
+        row.append(objective);
+      }
+      return row;
+    });
+    this.questLog.replaceChildren(...rows);
+  }
+
+  setQuestLogVisible(visible: boolean): void {
+    this.questLog.classList.toggle("visible", visible && this.questLog.childElementCount > 0);
+  }
+
+  // Short banner ("New quest: ..."); notices queue up and show one after another.
+  showNotice(text: string): void {
+    this.notices.push(text);
+  }
+
+  // Carried items; resolves once the panel is clicked or hidden.
+  showInventory(entries: InventoryEntry[]): Promise<void> {
+    this.closeInventory?.();
+    const rows: HTMLElement[] = entries.map((entry) => {
+      const row = document.createElement("div");
+      row.className = "ui-inventory-item";
+      const swatch = document.createElement("span");
+      swatch.className = "ui-inventory-swatch";
+      swatch.style.background = entry.color;
+      const name = document.createElement("p");
+      name.className = "ui-inventory-name";
+      name.textContent = entry.count > 1 ? `${entry.name} x${entry.count}` : entry.name;
+      const description = document.createElement("p");
+      description.className = "ui-inventory-description";
+      description.textContent = entry.description;
+      row.append(swatch, name, description);
+      return row;
+    });
+    if (rows.length === 0) {
+      const empty = document.createElement("p");
+      empty.className = "ui-inventory-description";
+      empty.textContent = "Nothing here yet.";
+      rows.push(empty);
+    }
+    this.inventoryList.replaceChildren(...rows);
+    this.inventoryTip.textContent = `${this.input.describeAction("inventory", 1)} / Click - close`;
+    this.inventory.classList.add("visible");
+    this.layer.classList.add("inventory-open");
+
+    return new Promise((resolve) => {
+      this.closeInventory = resolve;
+    });
+  }
+
+  hideInventory(): void {
+    this.inventory.classList.remove("visible");
+    this.layer.classList.remove("inventory-open");
+    const close = this.closeInventory;
+    this.closeInventory = null;
+    close?.();
+  }
+
   showDialogue(line: DialogueLine): void {
     this.dialogName.textContent = line.speaker;
-    this.dialogText.textContent = line.text;
+    this.dialogueToken += 1;
+    this.blipPitch = getSpeakerPitch(line.speaker);
+    this.typewriter.start(line.text);
+    this.choiceMenu.close();
+    this.dialogTip.textContent = line.tip ?? this.getAdvanceTip();
+    this.dialog.classList.add("visible");
+    this.layer.classList.add("dialog-open");
+  }
+
+  isDialogueRevealing(): boolean {
+    return this.typewriter.isRevealing;
+  }
+
+  completeDialogueReveal(): void {
+    this.typewriter.complete();
+  }
+
+  setDialogueBlip(enabled: boolean): void {
+    this.blip.enabled = enabled;
+  }
+
+  setSfxVolume(volume: number): void {
+    this.blip.volume = volume;
+  }
+
+  // Resolves with the picked option index, or null if the dialogue is hidden/replaced first.
+  // The menu opens only once the current line has been fully revealed.
+  async showChoices(options: ChoiceOption[]): Promise<number | null> {
+    const token = this.dialogueToken;
+    await this.typewriter.whenDone();
+    if (token !== this.dialogueToken) {
+      return null;
+    }
+
+    this.dialogTip.textContent = this.getChoiceTip();
     this.dialog.classList.add("visible");
+    this.layer.classList.add("dialog-open");
+    const index = await this.choiceMenu.open(options);
+    this.dialogTip.textContent = this.getAdvanceTip();
+    return index;
   }
 
   hideDialogue(): void {
+    this.dialogueToken += 1;
+    this.typewriter.complete();
+    this.choiceMenu.close();
     this.dialog.classList.remove("visible");
+    this.layer.classList.remove("dialog-open");
+  }
+
+  // Full-screen menu (title, pause, ...). Resolves with the picked index, or null if hidden first.
+  showMenu(title: string, options: ChoiceOption[], subtitle = "", initialIndex = 0): Promise<number | null> {
+    this.menuTitle.textContent = title;
+    this.menuSubtitle.textContent = subtitle;
+    this.menu.classList.add("visible");
+    this.layer.classList.add("menu-open");
+    this.touchControls.release();
+    return this.menuChoices.open(options, initialIndex);
+  }
+
+  hideMenu(): void {
+    this.menuChoices.close();
+    this.menu.classList.remove("visible");
+    this.layer.classList.remove("menu-open");
+  }
+
+  // On-screen stick and buttons; they only appear on touch devices.
+  setTouchControlsEnabled(enabled: boolean): void {
+    this.touchControls.setEnabled(enabled);
+  }
+
+  setTouchDanceEnabled(enabled: boolean): void {
+    this.touchControls.setDanceEnabled(enabled);
+  }
+
+  dispose(): void {
+    this.touchControls.dispose();
+  }
+
+  update(deltaSeconds: number): void {
+    this.updateNotice(deltaSeconds);
+
+    // An open menu owns the input and freezes the dialogue box underneath it; so does the inventory.
+    if (this.menuChoices.isOpen) {
+      this.menuChoices.update(this.input);
+      return;
+    }
+    if (this.closeInventory) {
+      return;
+    }
+
+    this.typewriter.update(deltaSeconds * 1000);
+    this.choiceMenu.update(this.input);
+  }
+
+  private updateNotice(deltaSeconds: number): void {
+    this.noticeTimer -= deltaSeconds;
+    if (this.noticeTimer > 0) {
+      return;
+    }
+
+    const next = this.notices.shift();
+    if (next === undefined) {
+      this.notice.classList.remove("visible");
+      return;
+    }
+    this.notice.textContent = next;
+    this.notice.classList.add("visible");
+    this.noticeTimer = NOTICE_SECONDS;
+  }
+
+  private getAdvanceTip(): string {
+    return this.input.describeAction("advance", 3);
+  }
+
+  private getChoiceTip(): string {
+    const up = this.input.describeAction("menuUp", 1);
+    const down = this.input.describeAction("menuDown", 1);
+    const confirm = this.input.describeAction("menuConfirm", 1);
+    return `${up} / ${down} - select, ${confirm} / Click - choose`;
   }
 
   async fadeIn(durationMs: number): Promise<void> {
@@ -86,4 +373,10 @@ export class UI {
   setFadeVisible(visible: boolean): void {
     this.fade.style.opacity = visible ? "1" : "0";
   }
+
+  // Immediate, for fades driven frame by frame (cutscenes).
+  setFadeOpacity(opacity: number): void {
+    this.fade.style.transitionDuration = "0ms";
+    this.fade.style.opacity = String(Math.min(1, Math.max(0, opacity)));
+  }
 }
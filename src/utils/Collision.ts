@@ -0,0 +1,198 @@
+import { Box3, Object3D, Vector3 } from "three";
+
+// Colliders live on the ground plane (XZ) and are treated as infinitely tall.
+// `circle` is a vertical cylinder; `box` is rotated around Y like `Object3D.rotation.y`.
+export type Collider =
+  | { kind: "circle"; x: number; z: number; radius: number }
+  | { kind: "box"; x: number; z: number; halfX: number; halfZ: number; rotY: number };
+
+// Hand-authored shape in an object's local units, set as `object.userData.collider`.
+// Scaled by the object's scale; overrides the shape derived from the mesh bounds.
+export type AuthoredCollider =
+  | { kind: "circle"; radius: number; offsetX?: number; offsetZ?: number }
+  | { kind: "box"; halfX: number; halfZ: number; offsetX?: number; offsetZ?: number };
+
+export interface ColliderFromObjectOptions {
+  kind: Collider["kind"];
+  // Grows (or with a negative value shrinks) the derived shape, in world units.
+  padding?: number;
+}
+
+const RESOLVE_ITERATIONS = 3;
+
+export class CollisionWorld {
+  private readonly colliders = new Map<number, Collider>();
+  private nextId = 1;
+
+  add(collider: Collider): number {
+    const id = this.nextId;
+    this.nextId += 1;
+    this.colliders.set(id, collider);
+    return id;
+  }
+
+  // Moves or reshapes a registered collider (e.g. an NPC that walks around).
+  set(id: number, collider: Collider): void {
+    if (this.colliders.has(id)) {
+      this.colliders.set(id, collider);
+    }
+  }
+
+  remove(id: number): void {
+    this.colliders.delete(id);
+  }
+
+  clear(): void {
+    this.colliders.clear();
+  }
+
+  // Registers an object by its authored collider, or by its mesh bounds measured unrotated.
+  addObject(object: Object3D, options: ColliderFromObjectOptions): number | null {
+    const collider = colliderFromObject(object, options);
+    return collider ? this.add(collider) : null;
+  }
+
+  // Pushes a circle of `radius` at `position` out of every collider but `ignoreId` (a mover's own
+  // collider). Only the penetrating component is removed, so movement into a wall at an angle
+  // slides along it. Returns true when the position was adjusted.
+  resolve(position: Vector3, radius: number, ignoreId: number | null = null): boolean {
+    let moved = false;
+    for (let iteration = 0; iteration < RESOLVE_ITERATIONS; iteration += 1) {
+      let pushed = false;
+      for (const [id, collider] of this.colliders) {
+        if (id !== ignoreId && pushOut(position, radius, collider)) {
+          pushed = true;
+        }
+      }
+      if (!pushed) {
+        break;
+      }
+      moved = true;
+    }
+    return moved;
+  }
+}
+
+export function colliderFromObject(object: Object3D, options: ColliderFromObjectOptions): Collider | null {
+  const padding = options.padding ?? 0;
+  const rotY = object.rotation.y;
+  const authored = object.userData.collider as AuthoredCollider | undefined;
+
+  if (authored) {
+    const scale = Math.max(object.scale.x, object.scale.z);
+    const cos = Math.cos(rotY);
+    const sin = Math.sin(rotY);
+    const offsetX = (authored.offsetX ?? 0) * object.scale.x;
+    const offsetZ = (authored.offsetZ ?? 0) * object.scale.z;
+    const x = object.position.x + offsetX * cos + offsetZ * sin;
+    const z = object.position.z - offsetX * sin + offsetZ * cos;
+
+    if (authored.kind === "circle") {
+      return { kind: "circle", x, z, radius: authored.radius * scale + padding };
+    }
+    return {
+      kind: "box",
+      x,
+      z,
+      halfX: authored.halfX * object.scale.x + padding,
+      halfZ: authored.halfZ * object.scale.z + padding,
+      rotY
+    };
+  }
+
+  // Measure with the yaw removed so a rotated house gets a tight box instead of a world AABB.
+  object.rotation.y = 0;
+  object.updateMatrixWorld(true);
+  const bounds = new Box3().setFromObject(object);
+  object.rotation.y = rotY;
+  object.updateMatrixWorld(true);
+
+  if (bounds.isEmpty()) {
+    return null;
+  }
+
+  const center = bounds.getCenter(new Vector3());
+  const size = bounds.getSize(new Vector3());
+  // Center offset from the pivot, rotated back into world space.
+  const offsetX = center.x - object.position.x;
+  const offsetZ = center.z - object.position.z;
+  const cos = Math.cos(rotY);
+  const sin = Math.sin(rotY);
+  const x = object.position.x + offsetX * cos + offsetZ * sin;
+  const z = object.position.z - offsetX * sin + offsetZ * cos;
+
+  if (options.kind === "circle") {
+    // Average of the half extents: arms and skirts should not make a character a wide disc.
+    return { kind: "circle", x, z, radius: (size.x + size.z) * 0.25 + padding };
+  }
+  return { kind: "box", x, z, halfX: size.x * 0.5 + padding, halfZ: size.z * 0.5 + padding, rotY };
+}
+
+// Whether the ground point (x, z) lies inside the shape (trigger areas).
+export function containsPoint(collider: Collider, x: number, z: number): boolean {
+  const dx = x - collider.x;
+  const dz = z - collider.z;
+  if (collider.kind === "circle") {
+    return dx * dx + dz * dz <= collider.radius * collider.radius;
+  }
+  const cos = Math.cos(collider.rotY);
+  const sin = Math.sin(collider.rotY);
+  return Math.abs(dx * cos - dz * sin) <= collider.halfX && Math.abs(dx * sin + dz * cos) <= collider.halfZ;
+}
+
+function pushOut(position: Vector3, radius: number, collider: Collider): boolean {
+  if (collider.kind === "circle") {
+    const dx = position.x - collider.x;
+    const dz = position.z - collider.z;
+    const minDistance = radius + collider.radius;
+    const distSq = dx * dx + dz * dz;
+    if (distSq >= minDistance * minDistance) {
+      return false;
+    }
+
+    const distance = Math.sqrt(distSq);
+    if (distance < 1e-6) {
+      position.x = collider.x + minDistance;
+      return true;
+    }
+    position.x = collider.x + (dx / distance) * minDistance;
+    position.z = collider.z + (dz / distance) * minDistance;
+    return true;
+  }
+
+  // Into the box's local frame (inverse of a rotation.y turn).
+  const cos = Math.cos(collider.rotY);
+  const sin = Math.sin(collider.rotY);
+  const wx = position.x - collider.x;
+  const wz = position.z - collider.z;
+  let lx = wx * cos - wz * sin;
+  let lz = wx * sin + wz * cos;
+
+  const closestX = Math.min(collider.halfX, Math.max(-collider.halfX, lx));
+  const closestZ = Math.min(collider.halfZ, Math.max(-collider.halfZ, lz));
+  const dx = lx - closestX;
+  const dz = lz - closestZ;
+  const distSq = dx * dx + dz * dz;
+
+  if (distSq > 1e-12) {
+    if (distSq >= radius * radius) {
+      return false;
+    }
+    const distance = Math.sqrt(distSq);
+    lx = closestX + (dx / distance) * radius;
+    lz = closestZ + (dz / distance) * radius;
+  } else {
+    // Center inside the box: leave through the nearest face.
+    const exitX = collider.halfX - Math.abs(lx);
+    const exitZ = collider.halfZ - Math.abs(lz);
+    if (exitX < exitZ) {
+      lx = (lx < 0 ? -1 : 1) * (collider.halfX + radius);
+    } else {
+      lz = (lz < 0 ? -1 : 1) * (collider.halfZ + radius);
+    }
+  }
+
+  position.x = collider.x + lx * cos + lz * sin;
+  position.z = collider.z - lx * sin + lz * cos;
+  return true;
+}
@@ -0,0 +1,151 @@
+import { BufferAttribute, InterleavedBufferAttribute, Mesh, Object3D, Vector3 } from "three";
+
+export interface HeightfieldBounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+type HeightFallback = (x: number, z: number) => number;
+
+// Step used for finite-difference normals, in cells.
+const NORMAL_STEP = 1;
+
+// Ground heights sampled on a regular XZ grid, baked once from the scene's ground meshes.
+// Lookups are bilinear, so snapping many characters costs a few array reads instead of
+// raycasting every ground surface each frame.
+export class Heightfield {
+  readonly bounds: HeightfieldBounds;
+  readonly cellSize: number;
+
+  private readonly cols: number;
+  private readonly rows: number;
+  private readonly heights: Float32Array;
+  private readonly fallback: HeightFallback;
+
+  private constructor(bounds: HeightfieldBounds, cellSize: number, fallback: HeightFallback) {
+    this.bounds = bounds;
+    this.cellSize = cellSize;
+    this.fallback = fallback;
+    this.cols = Math.floor((bounds.maxX - bounds.minX) / cellSize) + 1;
+    this.rows = Math.floor((bounds.maxZ - bounds.minZ) / cellSize) + 1;
+    this.heights = new Float32Array(this.cols * this.rows).fill(Number.NaN);
+  }
+
+  // Rasterizes every triangle of `surfaces` into the grid, keeping the highest surface per
+  // sample (what a downward ray would hit first). Samples no triangle covers use `fallback`,
+  // which also answers queries outside `bounds`.
+  static bake(surfaces: Object3D[], bounds: HeightfieldBounds, cellSize: number, fallback: HeightFallback): Heightfield {
+    const field = new Heightfield(bounds, cellSize, fallback);
+    const a = new Vector3();
+    const b = new Vector3();
+    const c = new Vector3();
+
+    for (const surface of surfaces) {
+      surface.updateMatrixWorld(true);
+      surface.traverse((node) => {
+        const mesh = node as Mesh;
+        const position = mesh.isMesh ? mesh.geometry?.getAttribute("position") : undefined;
+        if (!position) {
+          return;
+        }
+
+        const index = mesh.geometry.getIndex();
+        const count = index ? index.count : position.count;
+        for (let i = 0; i + 2 < count; i += 3) {
+          readVertex(position, index ? index.getX(i) : i, mesh, a);
+          readVertex(position, index ? index.getX(i + 1) : i + 1, mesh, b);
+          readVertex(position, index ? index.getX(i + 2) : i + 2, mesh, c);
+          field.rasterizeTriangle(a, b, c);
+        }
+      });
+    }
+
+    for (let row = 0; row < field.rows; row += 1) {
+      for (let col = 0; col < field.cols; col += 1) {
+        const cell = row * field.cols + col;
+        if (Number.isNaN(field.heights[cell])) {
+          field.heights[cell] = fallback(bounds.minX + col * cellSize, bounds.minZ + row * cellSize);
+        }
+      }
+    }
+
+    return field;
+  }
+
+  sampleHeight(x: number, z: number): number {
+    const gx = (x - this.bounds.minX) / this.cellSize;
+    const gz = (z - this.bounds.minZ) / this.cellSize;
+    if (gx < 0 || gz < 0 || gx > this.cols - 1 || gz > this.rows - 1) {
+      return this.fallback(x, z);
+    }
+
+    const col = Math.min(Math.floor(gx), this.cols - 2);
+    const row = Math.min(Math.floor(gz), this.rows - 2);
+    const tx = gx - col;
+    const tz = gz - row;
+
+    const i = row * this.cols + col;
+    const h00 = this.heights[i];
+    const h10 = this.heights[i + 1];
+    const h01 = this.heights[i + this.cols];
+    const h11 = this.heights[i + this.cols + 1];
+
+    const top = h00 + (h10 - h00) * tx;
+    const bottom = h01 + (h11 - h01) * tx;
+    return top + (bottom - top) * tz;
+  }
+
+  // Surface normal from central differences of the bilinear height.
+  sampleNormal(x: number, z: number, out = new Vector3()): Vector3 {
+    const step = this.cellSize * NORMAL_STEP;
+    const dx = (this.sampleHeight(x + step, z) - this.sampleHeight(x - step, z)) / (2 * step);
+    const dz = (this.sampleHeight(x, z + step) - this.sampleHeight(x, z - step)) / (2 * step);
+    return out.set(-dx, 1, -dz).normalize();
+  }
+
+  private rasterizeTriangle(a: Vector3, b: Vector3, c: Vector3): void {
+    // Barycentric setup in XZ; walls (no XZ area) never count as ground.
+    const det = (b.z - c.z) * (a.x - c.x) + (c.x - b.x) * (a.z - c.z);
+    if (Math.abs(det) < 1e-9) {
+      return;
+    }
+
+    const { minX, minZ } = this.bounds;
+    const size = this.cellSize;
+    const colStart = Math.max(0, Math.ceil((Math.min(a.x, b.x, c.x) - minX) / size));
+    const colEnd = Math.min(this.cols - 1, Math.floor((Math.max(a.x, b.x, c.x) - minX) / size));
+    const rowStart = Math.max(0, Math.ceil((Math.min(a.z, b.z, c.z) - minZ) / size));
+    const rowEnd = Math.min(this.rows - 1, Math.floor((Math.max(a.z, b.z, c.z) - minZ) / size));
+
+    for (let row = rowStart; row <= rowEnd; row += 1) {
+      const z = minZ + row * size;
+      for (let col = colStart; col <= colEnd; col += 1) {
+        const x = minX + col * size;
+        const wa = ((b.z - c.z) * (x - c.x) + (c.x - b.x) * (z - c.z)) / det;
+        const wb = ((c.z - a.z) * (x - c.x) + (a.x - c.x) * (z - c.z)) / det;
+        const wc = 1 - wa - wb;
+        if (wa < -1e-6 || wb < -1e-6 || wc < -1e-6) {
+          continue;
+        }
+
+        const y = wa * a.y + wb * b.y + wc * c.y;
+        const cell = row * this.cols + col;
+        const current = this.heights[cell];
+        if (Number.isNaN(current) || y > current) {
+          this.heights[cell] = y;
+        }
+      }
+    }
+  }
+}
+
+function readVertex(
+  position: BufferAttribute | InterleavedBufferAttribute,
+  index: number,
+  mesh: Mesh,
+  out: Vector3
+): Vector3 {
+  return out.fromBufferAttribute(position, index).applyMatrix4(mesh.matrixWorld);
+}
@@ -0,0 +1,211 @@
+import { Object3D, Vector3 } from "three";
+import type { LevelBehavior, LevelPoint } from "../core/Level";
+
+// What a character needs from the scene it walks around in.
+export interface NpcHost {
+  // Eases `object` onto the ground under it (the same snapping the player uses).
+  snapToGround(object: Object3D, deltaSeconds: number): void;
+  // Pushes a walker out of every collider but its own.
+  resolveCollisions(position: Vector3, radius: number): void;
+}
+
+const WALK_SPEED = 1.3;
+const TURN_RATE = 6;
+const NPC_RADIUS = 0.35;
+const ARRIVE_DISTANCE = 0.2;
+const DEFAULT_PAUSE = 2.5;
+const DEFAULT_WANDER_RADIUS = 4;
+const DEFAULT_LOOK_RADIUS = 4;
+// Giving up on a target after this long without real progress (blocked by a house, another NPC...).
+const STUCK_SECONDS = 1.5;
+
+interface Errand {
+  x: number;
+  z: number;
+  done: () => void;
+}
+
+// Drives one character from its level `behavior`: idling, wandering around home or patrolling
+// waypoints, turning to the player when they come close, and walking errands for the scene.
+// Characters face their local -Z, like the kitty.
+export class NpcController {
+  readonly object: Object3D;
+
+  private readonly behavior: LevelBehavior;
+  private readonly host: NpcHost;
+  private readonly route: LevelPoint[];
+  private readonly home = new Vector3();
+  private restYaw = 0;
+
+  private target: LevelPoint | null = null;
+  private routeIndex = 0;
+  private routeStep = 1;
+  private waitTimer = 0;
+  private stuckTimer = 0;
+  private errand: Errand | null = null;
+  private readonly lastPosition = new Vector3();
+
+  // `route` is used by "patrol" when the behavior has no waypoints of its own.
+  constructor(object: Object3D, behavior: LevelBehavior, host: NpcHost, route: LevelPoint[] = []) {
+    this.object = object;
+    this.behavior = behavior;
+    this.host = host;
+    this.route = behavior.kind === "patrol" ? (behavior.waypoints ?? route) : [];
+    this.resetHome();
+  }
+
+  // Current spot and facing become home, e.g. after the level editor moved the character.
+  resetHome(): void {
+    this.home.copy(this.object.position);
+    this.restYaw = this.object.rotation.y;
+    this.target = null;
+    this.waitTimer = 0;
+    if (this.route.length > 0) {
+      this.routeIndex = nearestIndex(this.route, this.home);
+    }
+  }
+
+  // Walks to (x, z), dropping whatever the behavior was doing; resolves on arrival or when blocked.
+  walkTo(x: number, z: number): Promise<void> {
+    this.errand?.done();
+    return new Promise((resolve) => {
+      this.errand = { x, z, done: resolve };
+      this.stuckTimer = 0;
+    });
+  }
+
+  // Settles a pending walkTo() where the character stands, e.g. when it is removed mid-walk.
+  cancelErrand(): void {
+    const errand = this.errand;
+    this.errand = null;
+    errand?.done();
+  }
+
+  // `talking`: the player is in a conversation with this character, who holds still and faces them.
+  update(deltaSeconds: number, player: Vector3, talking: boolean): void {
+    this.updateMovement(deltaSeconds, player, talking);
+    this.host.snapToGround(this.object, deltaSeconds);
+  }
+
+  private updateMovement(deltaSeconds: number, player: Vector3, talking: boolean): void {
+    if (talking) {
+      this.turnToward(player.x, player.z, deltaSeconds);
+      return;
+    }
+
+    if (this.errand) {
+      const errand = this.errand;
+      if (this.walk(errand, this.speed, deltaSeconds)) {
+        this.errand = null;
+        errand.done();
+      }
+      return;
+    }
+
+    const lookRadius = this.behavior.lookAtPlayer ?? DEFAULT_LOOK_RADIUS;
+    const toPlayer = Math.hypot(player.x - this.object.position.x, player.z - this.object.position.z);
+    if (toPlayer < lookRadius) {
+      this.turnToward(player.x, player.z, deltaSeconds);
+      return;
+    }
+
+    if (this.behavior.kind === "idle") {
+      // Back to the spot it was placed on (after an errand), then the way it was facing.
+      if (this.walk(this.home, this.speed, deltaSeconds)) {
+        this.turnTo(this.restYaw, deltaSeconds);
+      }
+      return;
+    }
+
+    if (this.waitTimer > 0) {
+      this.waitTimer -= deltaSeconds;
+      return;
+    }
+
+    this.target ??= this.pickTarget();
+    if (!this.target || this.walk(this.target, this.speed, deltaSeconds)) {
+      this.target = null;
+      // Patrols only stop at the ends of their route.
+      const pause = this.behavior.pause ?? DEFAULT_PAUSE;
+      this.waitTimer = this.behavior.kind === "patrol" && !this.atRouteEnd() ? 0 : pause;
+    }
+  }
+
+  private get speed(): number {
+    return this.behavior.kind === "idle" ? WALK_SPEED : (this.behavior.speed ?? WALK_SPEED);
+  }
+
+  private pickTarget(): LevelPoint | null {
+    if (this.behavior.kind === "wander") {
+      const radius = this.behavior.radius ?? DEFAULT_WANDER_RADIUS;
+      const angle = Math.random() * Math.PI * 2;
+      const distance = Math.sqrt(Math.random()) * radius;
+      return { x: this.home.x + Math.cos(angle) * distance, z: this.home.z + Math.sin(angle) * distance };
+    }
+
+    if (this.route.length < 2) {
+      return null;
+    }
+    // Back and forth along the route, turning around at either end.
+    const next = this.routeIndex + this.routeStep;
+    if (next < 0 || next >= this.route.length) {
+      this.routeStep = -this.routeStep;
+    }
+    this.routeIndex += this.routeStep;
+    return this.route[this.routeIndex];
+  }
+
+  private atRouteEnd(): boolean {
+    return this.routeIndex === 0 || this.routeIndex === this.route.length - 1;
+  }
+
+  // One step toward `target`; true once there (or stuck).
+  private walk(target: LevelPoint, speed: number, deltaSeconds: number): boolean {
+    const position = this.object.position;
+    const dx = target.x - position.x;
+    const dz = target.z - position.z;
+    const distance = Math.hypot(dx, dz);
+    if (distance < ARRIVE_DISTANCE) {
+      return true;
+    }
+
+    this.lastPosition.copy(position);
+    const step = Math.min(distance, speed * deltaSeconds);
+    position.x += (dx / distance) * step;
+    position.z += (dz / distance) * step;
+    this.host.resolveCollisions(position, NPC_RADIUS);
+    this.turnToward(target.x, target.z, deltaSeconds);
+
+    const progress = Math.hypot(position.x - this.lastPosition.x, position.z - this.lastPosition.z);
+    this.stuckTimer = progress < step * 0.25 ? this.stuckTimer + deltaSeconds : 0;
+    if (this.stuckTimer > STUCK_SECONDS) {
+      this.stuckTimer = 0;
+      return true;
+    }
+    return false;
+  }
+
+  private turnToward(x: number, z: number, deltaSeconds: number): void {
+    const dx = x - this.object.position.x;
+    const dz = z - this.object.position.z;
+    if (dx * dx + dz * dz > 1e-6) {
+      this.turnTo(Math.atan2(-dx, -dz), deltaSeconds);
+    }
+  }
+
+  private turnTo(yaw: number, deltaSeconds: number): void {
+    const delta = Math.atan2(Math.sin(yaw - this.object.rotation.y), Math.cos(yaw - this.object.rotation.y));
+    this.object.rotation.y += delta * (1 - Math.exp(-deltaSeconds * TURN_RATE));
+  }
+}
+
+function nearestIndex(points: LevelPoint[], position: Vector3): number {
+  let best = 0;
+  for (let i = 1; i < points.length; i += 1) {
+    const distance = Math.hypot(points[i].x - position.x, points[i].z - position.z);
+    if (distance < Math.hypot(points[best].x - position.x, points[best].z - position.z)) {
+      best = i;
+    }
+  }
+  return best;
+}
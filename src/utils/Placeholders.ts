@@ -3,6 +3,7 @@ import {
   CapsuleGeometry,
   ColorRepresentation,
   ConeGeometry,
+  CylinderGeometry,
   DoubleSide,
   Group,
   Material,
@@ -11,6 +12,7 @@ import {
   MeshLambertMaterial,
   Object3D,
   PlaneGeometry,
+  SphereGeometry,
   Sprite,
   SpriteMaterial,
   Vector3
@@ -148,6 +150,81 @@ export function createLandscapePlaceholder(): Mesh {
   return ground;
 }
 
+export function createGiftPlaceholder(color: ColorRepresentation): Group {
+  // TODO: replace with /public/assets/models/gift.glb
+  const root = new Group();
+  root.name = "TODO_SLOT_gift";
+
+  const box = new Mesh(new BoxGeometry(0.42, 0.36, 0.42), makeLambert(color));
+  box.position.y = 0.18;
+
+  const ribbonMat = makeLambert("#fff1a8");
+  const ribbonX = new Mesh(new BoxGeometry(0.44, 0.38, 0.08), ribbonMat);
+  ribbonX.position.y = 0.18;
+  const ribbonZ = new Mesh(new BoxGeometry(0.08, 0.38, 0.44), ribbonMat);
+  ribbonZ.position.y = 0.18;
+
+  const bow = new Mesh(new BoxGeometry(0.2, 0.1, 0.1), ribbonMat);
+  bow.position.y = 0.4;
+  bow.rotation.y = Math.PI * 0.25;
+
+  root.add(box, ribbonX, ribbonZ, bow);
+  return root;
+}
+
+export function createBalloonPlaceholder(color: ColorRepresentation): Group {
+  // TODO: replace with /public/assets/models/balloon.glb
+  const root = new Group();
+  root.name = "TODO_SLOT_balloon";
+
+  const balloon = new Mesh(new SphereGeometry(0.26, 8, 6), makeLambert(color));
+  balloon.scale.y = 1.2;
+  balloon.position.y = 1.05;
+
+  const string = new Mesh(new CylinderGeometry(0.01, 0.01, 0.75, 3), makeLambert("#f2f2f2"));
+  string.position.y = 0.4;
+
+  root.add(balloon, string);
+  return root;
+}
+
+export function createStrawberryPlaceholder(): Group {
+  // TODO: replace with /public/assets/models/strawberry.glb
+  const root = new Group();
+  root.name = "TODO_SLOT_strawberry";
+
+  const berry = new Mesh(new ConeGeometry(0.14, 0.26, 6), makeLambert("#e8383f"));
+  berry.rotation.x = Math.PI;
+  berry.position.y = 0.15;
+
+  const leaves = new Mesh(new ConeGeometry(0.12, 0.06, 5), makeLambert("#4fae4a"));
+  leaves.position.y = 0.3;
+
+  root.add(berry, leaves);
+  return root;
+}
+
+export function createCakePlaceholder(): Group {
+  // TODO: replace with /public/assets/models/cake.glb
+  const root = new Group();
+  root.name = "TODO_SLOT_cake";
+
+  const base = new Mesh(new CylinderGeometry(0.45, 0.45, 0.3, 10), makeLambert("#fff0dc"));
+  base.position.y = 0.15;
+  const top = new Mesh(new CylinderGeometry(0.32, 0.32, 0.22, 10), makeLambert("#ffc1dc"));
+  top.position.y = 0.41;
+  root.add(base, top);
+
+  for (let i = 0; i < 5; i += 1) {
+    const angle = (i / 5) * Math.PI * 2;
+    const berry = createStrawberryPlaceholder();
+    berry.scale.setScalar(0.5);
+    berry.position.set(Math.cos(angle) * 0.2, 0.52, Math.sin(angle) * 0.2);
+    root.add(berry);
+  }
+  return root;
+}
+
 export function createClubRoomPlaceholder(): Group {
   // TODO: replace with /public/assets/models/club_room.glb
   const root = new Group();
@@ -1,3 +1,5 @@
+import { Vector3 } from "three";
+
 export interface HillSpec {
   x: number;
   z: number;
@@ -32,11 +34,11 @@ export function getHillVisualBaseY(scaleY: number): number {
   return Math.max(0.45, scaleY * 0.42);
 }
 
-export function sampleWorldTerrainHeight(x: number, z: number): number {
+export function sampleWorldTerrainHeight(x: number, z: number, hills: HillSpec[] = WORLD_HILLS): number {
   const base = getBaseTerrainHeight(x, z);
   let top = base;
 
-  for (const hill of WORLD_HILLS) {
+  for (const hill of hills) {
     const dx = (x - hill.x) / (hill.sx * 0.64);
     const dz = (z - hill.z) / (hill.sz * 0.64);
     const distSq = dx * dx + dz * dz;
@@ -53,3 +55,21 @@ export function sampleWorldTerrainHeight(x: number, z: number): number {
 
   return top;
 }
+
+// Surface normal of `sampleWorldTerrainHeight` by central differences.
+export function sampleWorldTerrainNormal(
+  x: number,
+  z: number,
+  out = new Vector3(),
+  hills: HillSpec[] = WORLD_HILLS
+): Vector3 {
+  const step = 0.1;
+  const dx = (sampleWorldTerrainHeight(x + step, z, hills) - sampleWorldTerrainHeight(x - step, z, hills)) / (2 * step);
+  const dz = (sampleWorldTerrainHeight(x, z + step, hills) - sampleWorldTerrainHeight(x, z - step, hills)) / (2 * step);
+  return out.set(-dx, 1, -dz).normalize();
+}
+
+// Angle between a surface normal and straight up, in radians.
+export function getSlopeAngle(normal: Vector3): number {
+  return Math.acos(Math.min(1, Math.max(-1, normal.y)));
+}
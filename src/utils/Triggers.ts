@@ -0,0 +1,64 @@
+import { Collider, containsPoint } from "./Collision";
+
+export type TriggerEvent = "enter" | "stay" | "exit";
+
+export interface TriggerVolume {
+  id: string;
+  area: Collider;
+  // Seconds inside before "stay" fires (once per visit).
+  stayDelay?: number;
+}
+
+type TriggerListener = (id: string, event: TriggerEvent) => void;
+
+const DEFAULT_STAY_DELAY = 1.5;
+
+interface VolumeState {
+  volume: TriggerVolume;
+  inside: boolean;
+  insideTime: number;
+  stayed: boolean;
+}
+
+// Invisible areas on the ground plane that report a point walking in, lingering and walking out.
+export class TriggerVolumes {
+  private readonly states: VolumeState[] = [];
+
+  set(volumes: TriggerVolume[]): void {
+    this.states.length = 0;
+    for (const volume of volumes) {
+      this.states.push({ volume, inside: false, insideTime: 0, stayed: false });
+    }
+  }
+
+  // Everything counts as outside again, so a point already inside fires "enter" on the next update.
+  reset(): void {
+    for (const state of this.states) {
+      state.inside = false;
+      state.insideTime = 0;
+      state.stayed = false;
+    }
+  }
+
+  update(x: number, z: number, deltaSeconds: number, listener: TriggerListener): void {
+    for (const state of this.states) {
+      const { volume } = state;
+      const inside = containsPoint(volume.area, x, z);
+      if (inside !== state.inside) {
+        state.inside = inside;
+        state.insideTime = 0;
+        state.stayed = false;
+        listener(volume.id, inside ? "enter" : "exit");
+        continue;
+      }
+      if (!inside || state.stayed) {
+        continue;
+      }
+      state.insideTime += deltaSeconds;
+      if (state.insideTime >= (volume.stayDelay ?? DEFAULT_STAY_DELAY)) {
+        state.stayed = true;
+        listener(volume.id, "stay");
+      }
+    }
+  }
+}
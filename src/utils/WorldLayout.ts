@@ -0,0 +1,392 @@
+import { CatmullRomCurve3, Vector3 } from "three";
+import type { LevelData, LevelEntity, LevelTrigger } from "../core/Level";
+import { HillSpec, WORLD_HILLS } from "./Terrain";
+
+export interface LayoutPoint {
+  x: number;
+  z: number;
+}
+
+export interface LayoutTile extends LayoutPoint {
+  rotY: number;
+}
+
+export interface HouseSlot extends LayoutPoint {
+  rot: number;
+  variant: number;
+  scale: number;
+}
+
+// Village as scattered by the generator; `createLevelFromLayout` turns it into a level WorldScene can build.
+export interface WorldLayout {
+  // null for the hand-made default village.
+  seed: number | null;
+  playerSpawn: LayoutTile;
+  npcSpawn: LayoutPoint & { lookAt: LayoutPoint };
+  hills: HillSpec[];
+  road: LayoutTile[];
+  river: LayoutTile[];
+  houses: HouseSlot[];
+}
+
+export const ROAD_TILE_LENGTH = 2.1;
+export const RIVER_TILE_LENGTH = 2.25;
+
+// Walkable area of the village; generated content stays inside it.
+const AREA = { minX: -23, maxX: 23, minZ: -30, maxZ: 24 };
+
+// Model files of the village; the level editor's palette places these too.
+export const VILLAGE_MODELS = {
+  landscape: "/assets/models/world_landscape.glb",
+  house: "/assets/models/custom/zamok/castle.obj",
+  npcGirl: "/assets/models/custom/masha/masha.obj",
+  artem: "/assets/models/custom/artem/artem.obj",
+  sanya: "/assets/models/custom/sanya/sanya.obj",
+  klim: "/assets/models/custom/klim_sanych/klim_sanych.obj",
+  gift: "/assets/models/gift.glb",
+  balloon: "/assets/models/balloon.glb",
+  strawberry: "/assets/models/strawberry.glb"
+};
+const VILLAGE_DIALOGUES = {
+  masha: "/assets/dialogue/masha_birthday.json",
+  sanya: "/assets/dialogue/village_sanya.json",
+  klim: "/assets/dialogue/village_klim.json"
+};
+const VILLAGE_CUTSCENES = {
+  intro: "/assets/cutscenes/village_intro.json"
+};
+const PLACEMENT_ATTEMPTS = 400;
+// Pickups beside the road lie just off its edge.
+const PICKUP_ROAD_OFFSET = 1.25;
+// The intro plays from a trigger around the spawn, so it runs as the kitty first appears there.
+const INTRO_RADIUS = 1.5;
+// Walking this close to Masha the first time shows her off; the kitty spawns outside it.
+const MEET_MASHA_RADIUS = 4;
+// Half-width of the strip along the river where the kitty gets a hint.
+const RIVER_BANK_HALF_WIDTH = 3;
+
+export const DEFAULT_WORLD_LAYOUT: WorldLayout = {
+  seed: null,
+  playerSpawn: { x: 0, z: 8, rotY: Math.PI },
+  npcSpawn: { x: 1.6, z: 3.2, lookAt: { x: 0, z: 4.6 } },
+  hills: WORLD_HILLS,
+  road: Array.from({ length: 16 }, (_, i) => ({ x: 0.5 * Math.sin(i * 0.48), z: 9.5 - i * 2.15, rotY: 0 })),
+  river: Array.from({ length: 17 }, (_, i) => ({
+    x: -18.4 + Math.sin(i * 0.62) * 1.1,
+    z: 12.5 - i * RIVER_TILE_LENGTH,
+    rotY: Math.sin(i * 0.75) * 0.28
+  })),
+  houses: [
+    { x: 4.5, z: -3.6, rot: 0.1, variant: 0, scale: 3.4 },
+    { x: -4.2, z: -5.0, rot: -0.25, variant: 1, scale: 3.8 },
+    { x: 9.4, z: -8.4, rot: 0.35, variant: 1, scale: 4.1 },
+    { x: -10.2, z: -9.2, rot: -0.35, variant: 0, scale: 3.6 },
+    { x: 12.5, z: -0.9, rot: -0.2, variant: 0, scale: 4.5 },
+    { x: -13.4, z: -1.6, rot: 0.25, variant: 1, scale: 3.9 },
+    { x: 15.1, z: 6.5, rot: 0.4, variant: 0, scale: 4.8 },
+    { x: -15.0, z: 5.6, rot: -0.45, variant: 1, scale: 4.2 },
+    { x: 7.8, z: -16.5, rot: 0.18, variant: 0, scale: 3.7 },
+    { x: -8.1, z: -17.4, rot: -0.22, variant: 1, scale: 4.4 },
+    { x: 2.6, z: -22.2, rot: 0.15, variant: 1, scale: 4.9 },
+    { x: -3.6, z: -23.0, rot: -0.18, variant: 0, scale: 4.0 }
+  ]
+};
+
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
+
+// mulberry32: tiny, fast and good enough to scatter a village.
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Same entities, terrain and spawns as the hand-made `village.json`, so generated villages play alike.
+export function createLevelFromLayout(layout: WorldLayout): LevelData {
+  const npc = layout.npcSpawn;
+  // Sanya walks the road from its middle; Klim Sanych potters about beside it near the spawn.
+  const roadMiddle = layout.road[Math.floor(layout.road.length / 2)];
+  const roadStart = layout.road[Math.min(1, layout.road.length - 1)];
+  const entities: LevelEntity[] = [
+    {
+      id: "landscape",
+      model: VILLAGE_MODELS.landscape,
+      placeholder: "landscape",
+      position: { x: 0, y: 0, z: 0 },
+      scale: 1.35,
+      tags: ["ground"]
+    },
+    {
+      id: "masha",
+      model: VILLAGE_MODELS.npcGirl,
+      placeholder: "npcGirl",
+      position: { x: npc.x, z: npc.z },
+      // Faces the road point; the model's front is its -Z.
+      rotY: Math.atan2(npc.lookAt.x - npc.x, npc.lookAt.z - npc.z) + Math.PI,
+      tags: ["npc"],
+      collider: "circle",
+      dialogue: VILLAGE_DIALOGUES.masha,
+      behavior: { kind: "idle", lookAtPlayer: 4 }
+    },
+    {
+      id: "sanya",
+      model: VILLAGE_MODELS.sanya,
+      placeholder: "friend",
+      position: { x: roadMiddle.x + 0.5, z: roadMiddle.z },
+      tags: ["npc"],
+      collider: "circle",
+      dialogue: VILLAGE_DIALOGUES.sanya,
+      behavior: { kind: "patrol", speed: 1.2, pause: 3, lookAtPlayer: 2.5 }
+    },
+    {
+      id: "klim_sanych",
+      model: VILLAGE_MODELS.klim,
+      placeholder: "friend",
+      position: { x: roadStart.x - 3.5, z: roadStart.z },
+      rotY: -Math.PI * 0.5,
+      tags: ["npc"],
+      collider: "circle",
+      dialogue: VILLAGE_DIALOGUES.klim,
+      behavior: { kind: "wander", radius: 2.5, speed: 0.8, pause: 4 }
+    },
+    ...layout.houses.map<LevelEntity>((house, index) => ({
+      id: `house_${index + 1}`,
+      model: VILLAGE_MODELS.house,
+      placeholder: house.variant === 0 ? "houseA" : "houseB",
+      position: { x: house.x, z: house.z },
+      rotY: house.rot,
+      scale: house.scale,
+      tags: ["house"],
+      collider: "box"
+    })),
+    ...createPickups(layout.road, { x: roadStart.x - 3.5, z: roadStart.z })
+  ];
+
+  return {
+    id: layout.seed === null ? "village" : `village_${layout.seed}`,
+    terrain: { limits: { ...AREA }, hills: layout.hills, road: layout.road, river: layout.river },
+    spawns: { player: layout.playerSpawn },
+    entities,
+    triggers: createTriggers(layout)
+  };
+}
+
+function createTriggers(layout: WorldLayout): LevelTrigger[] {
+  const npc = layout.npcSpawn;
+  // The shot looks at Masha from her road side, a little above the kitty's camera.
+  const toRoadX = npc.lookAt.x - npc.x;
+  const toRoadZ = npc.lookAt.z - npc.z;
+  const toRoad = Math.hypot(toRoadX, toRoadZ) || 1;
+  const spawn = layout.playerSpawn;
+  const triggers: LevelTrigger[] = [
+    {
+      id: "intro",
+      area: { kind: "circle", x: spawn.x, z: spawn.z, radius: INTRO_RADIUS },
+      once: true,
+      onEnter: [{ type: "cutscene", cutscene: VILLAGE_CUTSCENES.intro }]
+    },
+    {
+      id: "meet_masha",
+      area: { kind: "circle", x: npc.x, z: npc.z, radius: MEET_MASHA_RADIUS },
+      once: true,
+      onEnter: [
+        {
+          type: "camera",
+          position: { x: npc.x + (toRoadX / toRoad) * 3.4, y: 2.4, z: npc.z + (toRoadZ / toRoad) * 3.4 },
+          lookAt: { x: npc.x, y: 1.2, z: npc.z },
+          seconds: 2.2
+        },
+        { type: "hint", text: "Masha looks like she wants to talk" }
+      ],
+      onExit: [{ type: "hideHint" }]
+    }
+  ];
+
+  if (layout.river.length > 0) {
+    const xs = layout.river.map((tile) => tile.x);
+    const zs = layout.river.map((tile) => tile.z);
+    const minZ = Math.min(...zs) - RIVER_TILE_LENGTH * 0.5;
+    const maxZ = Math.max(...zs) + RIVER_TILE_LENGTH * 0.5;
+    triggers.push({
+      id: "river_bank",
+      area: {
+        kind: "box",
+        x: xs.reduce((sum, x) => sum + x, 0) / xs.length,
+        z: (minZ + maxZ) * 0.5,
+        halfX: RIVER_BANK_HALF_WIDTH,
+        halfZ: (maxZ - minZ) * 0.5,
+        rotY: 0
+      },
+      stayDelay: 1,
+      onStay: [{ type: "hint", text: "The river is far too cold for a swim" }],
+      onExit: [{ type: "hideHint" }]
+    });
+  }
+  return triggers;
+}
+
+// Gifts and balloons along the road, strawberries in Klim Sanych's garden.
+function createPickups(road: LayoutTile[], garden: LayoutPoint): LevelEntity[] {
+  const beside = (fraction: number, side: number): LayoutPoint => {
+    const tile = road[Math.min(road.length - 1, Math.floor(road.length * fraction))];
+    return {
+      x: tile.x + Math.cos(tile.rotY) * side * PICKUP_ROAD_OFFSET,
+      z: tile.z - Math.sin(tile.rotY) * side * PICKUP_ROAD_OFFSET
+    };
+  };
+  const spots: Array<LayoutPoint & { item: "gift" | "balloon" | "strawberry" }> = [
+    { item: "gift", ...beside(0.3, 1) },
+    { item: "gift", ...beside(0.55, -1) },
+    { item: "gift", ...beside(0.85, -1) },
+    { item: "balloon", ...beside(0.15, -1) },
+    { item: "balloon", ...beside(0.7, 1) },
+    { item: "strawberry", x: garden.x - 1.1, z: garden.z - 1.0 },
+    { item: "strawberry", x: garden.x + 0.4, z: garden.z - 1.5 },
+    { item: "strawberry", x: garden.x - 0.6, z: garden.z + 1.3 }
+  ];
+
+  const counts = new Map<string, number>();
+  return spots.map(({ item, x, z }) => {
+    const count = (counts.get(item) ?? 0) + 1;
+    counts.set(item, count);
+    return { id: `${item}_${count}`, model: VILLAGE_MODELS[item], placeholder: item, position: { x, z }, item };
+  });
+}
+
+// Same seed, same village. Order matters: each step avoids what was placed before it.
+export function generateWorldLayout(seed: number): WorldLayout {
+  const random = createRandom(seed);
+  const range = (min: number, max: number): number => min + (max - min) * random();
+
+  const playerSpawn: LayoutTile = { x: range(-1.5, 1.5), z: 8, rotY: Math.PI };
+
+  const npcSide = random() < 0.5 ? -1 : 1;
+  const npcZ = range(1.5, 4);
+  const npcRoadX = playerSpawn.x * 0.5;
+  const npcSpawn = { x: npcRoadX + npcSide * 1.6, z: npcZ, lookAt: { x: npcRoadX, z: npcZ + 1.4 } };
+
+  const road = generateRoad(range, [
+    { x: playerSpawn.x, z: playerSpawn.z + 1.5 },
+    { x: npcRoadX, z: npcZ },
+    { x: range(-4, 4), z: -5 },
+    { x: range(-5, 5), z: -14 },
+    { x: range(-3, 3), z: AREA.minZ + 7 }
+  ]);
+  const river = generateRiver(range, random() < 0.5 ? -1 : 1);
+
+  const riverXAt = (z: number): number => {
+    let nearest = river[0];
+    for (const tile of river) {
+      if (Math.abs(tile.z - z) < Math.abs(nearest.z - z)) {
+        nearest = tile;
+      }
+    }
+    return nearest.x;
+  };
+  const landmarks: LayoutPoint[] = [playerSpawn, npcSpawn];
+
+  const hills: HillSpec[] = [];
+  const hillCount = Math.round(range(9, 12));
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS && hills.length < hillCount; attempt += 1) {
+    const sx = range(2.3, 4.2);
+    const hill: HillSpec = {
+      x: range(AREA.minX + 1, AREA.maxX - 1),
+      z: range(AREA.minZ + 1, AREA.maxZ - 1),
+      sx,
+      sy: range(0.8, 1.5),
+      sz: sx * range(0.85, 0.95)
+    };
+    const radius = hill.sx * 0.64;
+    const clear =
+      Math.abs(hill.x) > 9 &&
+      distanceToPath(hill, road) > radius + 3 &&
+      Math.abs(hill.x - riverXAt(hill.z)) > radius + 3 &&
+      landmarks.every((point) => distance(point, hill) > radius + 6) &&
+      hills.every((other) => distance(other, hill) > radius + other.sx * 0.64 + 1);
+    if (clear) {
+      hills.push(hill);
+    }
+  }
+
+  const houses: HouseSlot[] = [];
+  const houseCount = Math.round(range(10, 13));
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS && houses.length < houseCount; attempt += 1) {
+    const house: HouseSlot = {
+      x: range(AREA.minX + 2, AREA.maxX - 2),
+      z: range(AREA.minZ + 2, AREA.maxZ - 4),
+      rot: range(-0.45, 0.45),
+      variant: random() < 0.5 ? 0 : 1,
+      scale: range(3.4, 4.9)
+    };
+    const clear =
+      distanceToPath(house, road) > 3.2 + house.scale * 0.15 &&
+      Math.abs(house.x - riverXAt(house.z)) > 4 &&
+      landmarks.every((point) => distance(point, house) > 5) &&
+      hills.every((hill) => distance(hill, house) > hill.sx * 0.64 + 2) &&
+      houses.every((other) => distance(other, house) > 5.5 + (house.scale + other.scale) * 0.25);
+    if (clear) {
+      houses.push(house);
+    }
+  }
+
+  return { seed, playerSpawn, npcSpawn, hills, road, river, houses };
+}
+
+// Road tiles every ROAD_TILE_LENGTH along a smooth spline through `points`, turned along it.
+function generateRoad(range: (min: number, max: number) => number, points: LayoutPoint[]): LayoutTile[] {
+  const curve = new CatmullRomCurve3(points.map((point) => new Vector3(point.x, 0, point.z)));
+  const count = Math.max(2, Math.floor(curve.getLength() / ROAD_TILE_LENGTH) + 1);
+  const tiles: LayoutTile[] = [];
+  const wobble = range(-0.04, 0.04);
+
+  for (let i = 0; i < count; i += 1) {
+    const t = i / (count - 1);
+    const point = curve.getPointAt(t);
+    const tangent = curve.getTangentAt(t);
+    tiles.push({ x: point.x, z: point.z, rotY: Math.atan2(tangent.x, tangent.z) + wobble * Math.sin(i) });
+  }
+  return tiles;
+}
+
+// A river running the length of the map along one side, meandering around a base line.
+function generateRiver(range: (min: number, max: number) => number, side: number): LayoutTile[] {
+  const baseX = side * range(16.5, 19.5);
+  const amplitude = range(0.6, 1.6);
+  const frequency = range(0.45, 0.75);
+  const phase = range(0, Math.PI * 2);
+  const tiles: LayoutTile[] = [];
+
+  for (let i = 0; i < 17; i += 1) {
+    tiles.push({
+      x: baseX + Math.sin(i * frequency + phase) * amplitude,
+      z: 12.5 - i * RIVER_TILE_LENGTH,
+      rotY: Math.sin(i * 0.75 + phase) * 0.28
+    });
+  }
+  return tiles;
+}
+
+function distance(a: LayoutPoint, b: LayoutPoint): number {
+  return Math.hypot(a.x - b.x, a.z - b.z);
+}
+
+function distanceToPath(point: LayoutPoint, path: LayoutPoint[]): number {
+  let best = Infinity;
+  for (let i = 0; i + 1 < path.length; i += 1) {
+    const a = path[i];
+    const b = path[i + 1];
+    const abX = b.x - a.x;
+    const abZ = b.z - a.z;
+    const lengthSq = abX * abX + abZ * abZ;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((point.x - a.x) * abX + (point.z - a.z) * abZ) / lengthSq)) : 0;
+    best = Math.min(best, Math.hypot(point.x - (a.x + abX * t), point.z - (a.z + abZ * t)));
+  }
+  return best;
+}